@@ -283,3 +283,70 @@ describe('Original AsyncGate functionality', () => {
     release();
   });
 });
+
+describe('AsyncGate.wrapBatches() - Batching Iterator', () => {
+  it('should group items by size with a partial final batch', async () => {
+    const gate = new AsyncGate({ concurrency: 1 });
+    const batches: number[][] = [];
+
+    for await (const batch of gate.wrapBatches(instant([1, 2, 3, 4, 5]), { size: 2 })) {
+      batches.push(batch);
+    }
+
+    expect(batches).toEqual([[1, 2], [3, 4], [5]]);
+  });
+
+  it('should cut a batch when maxWait elapses', async () => {
+    const gate = new AsyncGate({ concurrency: 1 });
+    const batches: number[][] = [];
+
+    async function* bursty() {
+      yield 1;
+      yield 2;
+      await new Promise(r => setTimeout(r, 60));
+      yield 3;
+    }
+
+    for await (const batch of gate.wrapBatches(bursty(), { size: 10, maxWait: 20 })) {
+      batches.push(batch);
+    }
+
+    expect(batches).toEqual([[1, 2], [3]]);
+  });
+
+  it('should hold one slot per batch until the next next()', async () => {
+    const gate = new AsyncGate({ concurrency: 1 });
+    const iter = gate.wrapBatches(instant([1, 2, 3, 4]), { size: 2 });
+
+    await iter.next();
+    let acquired = false;
+    const other = gate.acquire().then(release => { acquired = true; return release; });
+    await new Promise(r => setTimeout(r, 10));
+    expect(acquired).toBe(false);
+
+    await iter.return!();
+    (await other)();
+    expect(acquired).toBe(true);
+  });
+
+  it('should release the slot and rethrow on source error', async () => {
+    const gate = new AsyncGate({ concurrency: 1 });
+
+    async function* failing() {
+      yield 1;
+      throw new Error('source failed');
+    }
+
+    await expect(async () => {
+      for await (const _ of gate.wrapBatches(failing(), { size: 5 })) { /* consume */ }
+    }).rejects.toThrow('source failed');
+
+    const release = await gate.acquire({ timeout: 10 });
+    release();
+  });
+
+  it('should reject invalid batch sizes', () => {
+    const gate = new AsyncGate({ concurrency: 1 });
+    expect(() => gate.wrapBatches(instant([1]), { size: 0 })).toThrow('Batch size');
+  });
+});
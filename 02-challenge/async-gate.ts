@@ -1,9 +1,11 @@
 /**
  * AsyncGate - Async concurrency limiter with backpressure-aware iteration
- * Features: FIFO, cancellation, timeout, backpressure iterator | No deps | NOT a Node stream
+ * Features: FIFO, cancellation, timeout, backpressure iterator, batching iterator | No deps | NOT a Node stream
  */
 export type ReleaseFunction = () => void;
 export interface AcquireOptions { timeout?: number; signal?: AbortSignal; }
+/** size: max items per batch | maxWait: max ms to wait for more once a batch has its first item */
+export interface BatchOptions { size: number; maxWait?: number; }
 
 export class TimeoutError extends Error {
   constructor() { super('Gate acquisition timed out'); this.name = 'TimeoutError'; }
@@ -106,6 +108,56 @@ export class AsyncGate {
     };
   }
 
+  /**
+   * Batching wrap(): yields arrays when `size` is reached or `maxWait` ms passed since the batch's first item.
+   * One slot per batch, released on subsequent next() or cleanup. A pull pending at a time cut carries over.
+   */
+  wrapBatches<T>(source: AsyncIterable<T>, options: BatchOptions): AsyncIterableIterator<T[]> {
+    const { size, maxWait = Infinity } = options;
+    if (!Number.isInteger(size) || size < 1) throw new Error('Batch size must be an integer >= 1');
+    const gate = this, iter = source[Symbol.asyncIterator]();
+    let pendingRelease: ReleaseFunction | null = null, pendingPull: Promise<IteratorResult<T>> | null = null, done = false;
+
+    const releasePending = () => { if (pendingRelease) { pendingRelease(); pendingRelease = null; } };
+    const pull = () => { const next = pendingPull ?? iter.next(); pendingPull = null; return next; };
+
+    return {
+      async next(): Promise<IteratorResult<T[]>> {
+        releasePending();
+        if (done) return { done: true, value: undefined };
+        const release = await gate.acquire();
+        const batch: T[] = [];
+        let timer: ReturnType<typeof setTimeout> | undefined, expired: Promise<null> | null = null;
+        try {
+          while (batch.length < size) {
+            const next = pull();
+            const result = expired ? await Promise.race([next, expired]) : await next;
+            if (result === null) { next.catch(() => {}); pendingPull = next; break; } // time cut: carry pull over
+            if (result.done) { done = true; break; }
+            batch.push(result.value);
+            if (batch.length === 1 && maxWait !== Infinity) {
+              expired = new Promise(resolve => { timer = setTimeout(() => resolve(null), maxWait); });
+            }
+          }
+        } catch (e) { release(); throw e; } finally { clearTimeout(timer); }
+        if (batch.length === 0) { release(); return { done: true, value: undefined }; }
+        pendingRelease = release;
+        return { done: false, value: batch };
+      },
+      async return(value?: unknown): Promise<IteratorResult<T[]>> {
+        releasePending(); done = true;
+        await iter.return?.(value);
+        return { done: true, value: undefined };
+      },
+      async throw(error?: unknown): Promise<IteratorResult<T[]>> {
+        releasePending(); done = true;
+        if (iter.throw) await iter.throw(error);
+        throw error;
+      },
+      [Symbol.asyncIterator]() { return this; }
+    };
+  }
+
   private createRelease(): ReleaseFunction {
     let released = false;
     return () => {
@@ -0,0 +1,165 @@
+import { Readable } from 'node:stream';
+import { describe, expect, it } from 'vitest';
+import { AsyncGate } from './async-gate';
+import { fromStream, toReadable, toReadableStream } from './stream-adapters';
+
+async function* instant<T>(items: T[]): AsyncGenerator<T> {
+  for (const item of items) yield item;
+}
+
+// Helper: Infinite source that records cleanup and pulls
+function tracked() {
+  const state = { pulled: 0, closed: false };
+  async function* source(): AsyncGenerator<number> {
+    try {
+      for (let i = 0; ; i++) { state.pulled++; yield i; }
+    } finally { state.closed = true; }
+  }
+  return { state, source: source() };
+}
+
+// Helper: Source that yields every 50ms
+async function* slow(): AsyncGenerator<number> {
+  for (let i = 0; ; i++) { await new Promise(r => setTimeout(r, 50)); yield i; }
+}
+
+const tick = () => new Promise(r => setTimeout(r, 10));
+
+describe('toReadable()', () => {
+  it('should stream all items in order', async () => {
+    const gate = new AsyncGate({ concurrency: 1 });
+    const result: number[] = [];
+
+    for await (const item of toReadable(gate, instant([1, 2, 3]))) result.push(item);
+
+    expect(result).toEqual([1, 2, 3]);
+  });
+
+  it('should stop pulling at highWaterMark', async () => {
+    const gate = new AsyncGate({ concurrency: 1 });
+    const { state, source } = tracked();
+
+    const readable = toReadable(gate, source, { highWaterMark: 4 });
+    readable.pause();
+    readable.read(0); // trigger initial fill
+    await tick();
+
+    expect(state.pulled).toBeLessThanOrEqual(5);
+    readable.destroy();
+  });
+
+  it('should propagate destroy() to the source and free the slot', async () => {
+    const gate = new AsyncGate({ concurrency: 1 });
+    const { state, source } = tracked();
+
+    const readable = toReadable(gate, source, { highWaterMark: 2 });
+    readable.read(0);
+    await tick();
+    readable.destroy();
+    await tick();
+
+    expect(state.closed).toBe(true);
+    const release = await gate.acquire({ timeout: 10 });
+    release();
+  });
+
+  it('should free the slot when destroyed mid-read', async () => {
+    const gate = new AsyncGate({ concurrency: 1 });
+
+    const readable = toReadable(gate, slow());
+    readable.read(0);
+    await tick();
+    readable.destroy();
+
+    const release = await gate.acquire({ timeout: 100 });
+    release();
+  });
+
+  it('should hold a slot per item read ahead', async () => {
+    const gate = new AsyncGate({ concurrency: 2 });
+    const { state, source } = tracked();
+
+    const readable = toReadable(gate, source, { highWaterMark: 4 });
+    readable.read(0);
+    await tick();
+
+    expect(state.pulled).toBe(2); // Both slots held by buffered items
+    await expect(gate.acquire({ timeout: 10 })).rejects.toThrow('timed out');
+    readable.destroy();
+  });
+
+  it('should destroy the stream with the source error', async () => {
+    const gate = new AsyncGate({ concurrency: 1 });
+    async function* failing() { yield 1; throw new Error('source failed'); }
+
+    await expect(async () => {
+      for await (const _ of toReadable(gate, failing())) { /* consume */ }
+    }).rejects.toThrow('source failed');
+  });
+});
+
+describe('toReadableStream()', () => {
+  it('should stream all items in order', async () => {
+    const gate = new AsyncGate({ concurrency: 1 });
+    const result: number[] = [];
+
+    for await (const item of toReadableStream(gate, instant([1, 2, 3]))) result.push(item);
+
+    expect(result).toEqual([1, 2, 3]);
+  });
+
+  it('should only pull up to highWaterMark ahead of the reader', async () => {
+    const gate = new AsyncGate({ concurrency: 1 });
+    const { state, source } = tracked();
+
+    const stream = toReadableStream(gate, source, { highWaterMark: 2 });
+    await tick();
+
+    expect(state.pulled).toBeLessThanOrEqual(2);
+    await stream.cancel();
+  });
+
+  it('should propagate cancel() to the source and free the slot', async () => {
+    const gate = new AsyncGate({ concurrency: 1 });
+    const { state, source } = tracked();
+
+    const reader = toReadableStream(gate, source).getReader();
+    await reader.read();
+    await reader.cancel();
+
+    expect(state.closed).toBe(true);
+    const release = await gate.acquire({ timeout: 10 });
+    release();
+  });
+});
+
+describe('fromStream()', () => {
+  it('should gate a Node Readable and destroy it on break', async () => {
+    const gate = new AsyncGate({ concurrency: 1 });
+    const readable = Readable.from([1, 2, 3, 4]);
+    const result: number[] = [];
+
+    for await (const item of fromStream<number>(gate, readable)) {
+      result.push(item);
+      if (item === 2) break;
+    }
+
+    expect(result).toEqual([1, 2]);
+    expect(readable.destroyed).toBe(true);
+  });
+
+  it('should gate a ReadableStream and cancel it on break', async () => {
+    const gate = new AsyncGate({ concurrency: 1 });
+    let cancelled = false;
+    const stream = new ReadableStream<number>({
+      pull(controller) { controller.enqueue(1); },
+      cancel() { cancelled = true; },
+    });
+
+    for await (const _ of fromStream(gate, stream)) break;
+
+    expect(cancelled).toBe(true);
+    const release = await gate.acquire({ timeout: 10 });
+    release();
+  });
+});
@@ -0,0 +1,110 @@
+/**
+ * Stream adapters - Gated iterators <-> Node Readable / WHATWG ReadableStream
+ * The gate stays the only source of backpressure: every item read ahead holds a gate slot | No buffering beyond highWaterMark
+ */
+import { Readable } from 'node:stream';
+import { AsyncGate, ReleaseFunction } from './async-gate';
+
+export interface StreamAdapterOptions { highWaterMark?: number; }
+
+interface Buffered<T> { value: T; release: ReleaseFunction; }
+
+/**
+ * Read-ahead shared by both adapters: up to `size` items fetched in advance, each holding its own slot until the
+ * stream hands it out; the item handed out last keeps its slot until the next pull (like wrap()).
+ * One source next() at a time | close() waits for the in-flight fetch, then frees every slot and calls return()
+ */
+function readAhead<T>(gate: AsyncGate, source: AsyncIterable<T>, highWaterMark: number) {
+  const size = Math.max(1, highWaterMark);
+  const iter = source[Symbol.asyncIterator](), ready: Buffered<T>[] = [], abort = new AbortController();
+  let current: ReleaseFunction | null = null, fetching: Promise<void> | null = null;
+  let done = false, closed = false, failure: { error: unknown } | null = null;
+
+  const releaseCurrent = () => { if (current) { current(); current = null; } };
+  const fetchOne = async () => {
+    const release = await gate.acquire({ signal: abort.signal });
+    try {
+      const result = await iter.next();
+      if (result.done) done = true;
+      if (result.done || closed) release(); else ready.push({ value: result.value, release });
+    } catch (e) { release(); throw e; }
+  };
+  const topUp = (): Promise<void> | null => {
+    if (!fetching && !done && !closed && !failure && ready.length < size) {
+      fetching = fetchOne()
+        .catch(e => { if (!closed) failure = { error: e }; })
+        .finally(() => { fetching = null; topUp(); });
+    }
+    return fetching;
+  };
+
+  return {
+    async pull(): Promise<IteratorResult<T>> {
+      releaseCurrent();
+      while (!ready.length) {
+        if (failure) throw failure.error;
+        if (done || closed) return { done: true, value: undefined };
+        await topUp();
+      }
+      const item = ready.shift()!;
+      current = item.release;
+      topUp();
+      return { done: false, value: item.value };
+    },
+    async close(): Promise<void> {
+      if (closed) return;
+      closed = true; abort.abort();
+      releaseCurrent();
+      for (const item of ready.splice(0)) item.release();
+      await fetching; // Never call return() while next() is in flight
+      if (!done) await iter.return?.();
+    },
+  };
+}
+
+/**
+ * Gated source as an object-mode Readable.
+ * read() → next buffered item | highWaterMark items read ahead, each holding a slot | destroy() → free slots, iter.return()
+ */
+export function toReadable<T>(gate: AsyncGate, source: AsyncIterable<T>, options: StreamAdapterOptions = {}): Readable {
+  const buffer = readAhead(gate, source, options.highWaterMark ?? 16);
+
+  return new Readable({
+    objectMode: true,
+    highWaterMark: 0, // Read-ahead lives in the gated buffer, not in the Readable's own queue
+    read() {
+      buffer.pull().then(
+        result => { this.push(result.done ? null : result.value); },
+        e => this.destroy(e as Error),
+      );
+    },
+    destroy(error, callback) {
+      buffer.close().then(() => callback(error), (e) => callback(error ?? e));
+    },
+  });
+}
+
+/**
+ * Gated source as a WHATWG ReadableStream.
+ * pull() → next buffered item | highWaterMark items read ahead, each holding a slot | cancel() → free slots, iter.return()
+ */
+export function toReadableStream<T>(gate: AsyncGate, source: AsyncIterable<T>, options: StreamAdapterOptions = {}): ReadableStream<T> {
+  const buffer = readAhead(gate, source, options.highWaterMark ?? 1);
+
+  return new ReadableStream<T>({
+    async pull(controller) {
+      try {
+        const result = await buffer.pull();
+        if (result.done) controller.close(); else controller.enqueue(result.value);
+      } catch (e) { await buffer.close(); controller.error(e); }
+    },
+    cancel() { return buffer.close(); },
+  }, new CountQueuingStrategy({ highWaterMark: 0 }));
+}
+
+/**
+ * Stream back into a gated iterator. Breaking out of the iterator destroys the Readable / cancels the ReadableStream.
+ */
+export function fromStream<T>(gate: AsyncGate, stream: Readable | ReadableStream<T>): AsyncIterableIterator<T> {
+  return gate.wrap(stream as AsyncIterable<T>);
+}
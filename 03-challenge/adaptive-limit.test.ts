@@ -0,0 +1,114 @@
+import assert from "node:assert/strict";
+import { describe, test } from "node:test";
+import { AdaptiveLimit } from "./adaptive-limit.ts";
+import { AsyncGate } from "./async-gate.ts";
+
+const delay = (ms: number) => new Promise<void>((r) => setTimeout(r, ms));
+
+describe("AdaptiveLimit", () => {
+  test("grows additively while latency is stable and the limit is used", () => {
+    const limit = new AdaptiveLimit({ increase: 2 });
+    let current = 10;
+    for (let i = 0; i < 3; i++) {
+      current = limit.update(current, { latency: 20, failed: false, inflight: 10 });
+    }
+    assert.equal(current, 16);
+  });
+
+  test("does not grow while the limit is mostly idle", () => {
+    const limit = new AdaptiveLimit();
+    const next = limit.update(10, { latency: 20, failed: false, inflight: 2 });
+    assert.equal(next, 10);
+  });
+
+  test("shrinks multiplicatively when latency rises", () => {
+    const limit = new AdaptiveLimit({ backoffRatio: 0.5, tolerance: 2 });
+    limit.update(20, { latency: 10, failed: false, inflight: 20 });
+    const next = limit.update(20, { latency: 50, failed: false, inflight: 20 });
+    assert.equal(next, 10);
+  });
+
+  test("shrinks on failure and keeps failures out of the baseline", () => {
+    const limit = new AdaptiveLimit({ backoffRatio: 0.5 });
+    limit.update(8, { latency: 10, failed: false, inflight: 8 });
+    const next = limit.update(8, { latency: 1000, failed: true, inflight: 8 });
+    assert.equal(next, 4);
+    assert.equal(limit.baselineLatency, 10);
+  });
+
+  test("respects min/max bounds", () => {
+    const limit = new AdaptiveLimit({ minLimit: 3, maxLimit: 5, backoffRatio: 0.1 });
+    assert.equal(limit.update(5, { latency: 1, failed: false, inflight: 5 }), 5);
+    assert.equal(limit.update(5, { latency: 1, failed: true, inflight: 5 }), 3);
+  });
+
+  test("validates bounds", () => {
+    assert.throws(() => new AdaptiveLimit({ minLimit: 0 }), /minLimit/);
+    assert.throws(
+      () => new AdaptiveLimit({ minLimit: 5, maxLimit: 2 }),
+      /maxLimit must be >= minLimit/
+    );
+  });
+});
+
+describe("AsyncGate adaptive mode", () => {
+  test("limit grows under stable saturated load", async () => {
+    const gate = new AsyncGate({ concurrency: 2, adaptive: { maxLimit: 8 } });
+
+    await Promise.all(
+      Array.from({ length: 12 }, () => gate.run(() => delay(5)))
+    );
+
+    assert.ok(gate.getStats().concurrency > 2, "Limit should have grown");
+    assert.ok(gate.getStats().concurrency <= 8, "Limit must respect maxLimit");
+  });
+
+  test("limit shrinks when tasks fail", async () => {
+    const gate = new AsyncGate({
+      concurrency: 8,
+      adaptive: { minLimit: 2, backoffRatio: 0.5 },
+    });
+
+    for (let i = 0; i < 3; i++) {
+      await gate
+        .run(async () => {
+          throw new Error("downstream failure");
+        })
+        .catch(() => {});
+    }
+
+    assert.equal(gate.getStats().concurrency, 2);
+  });
+
+  test("a shrink keeps heavier waiters queued until they can run", async () => {
+    const gate = new AsyncGate({
+      concurrency: 2,
+      adaptive: { minLimit: 1, backoffRatio: 0.5 },
+    });
+
+    const failing = gate.run(async () => {
+      await delay(10);
+      throw new Error("downstream failure");
+    });
+    const heavy = gate.acquire({ weight: 2 });
+
+    await failing.catch(() => {});
+    assert.equal(gate.getStats().concurrency, 1);
+
+    // Outweighs the shrunken limit, so it runs alone instead of failing
+    const release = await heavy;
+    assert.equal(gate.getStats().running, 2);
+    release();
+  });
+
+  test("weights are validated against maxLimit", async () => {
+    const gate = new AsyncGate({ concurrency: 2, adaptive: { maxLimit: 4 } });
+    await assert.rejects(() => gate.acquire({ weight: 5 }), /1\.\.4/);
+    (await gate.acquire({ weight: 3 }))();
+  });
+
+  test("starting concurrency is clamped into bounds", () => {
+    const gate = new AsyncGate({ concurrency: 50, adaptive: { maxLimit: 10 } });
+    assert.equal(gate.getStats().concurrency, 10);
+  });
+});
@@ -0,0 +1,95 @@
+/**
+ * AdaptiveLimit — AIMD concurrency limit driven by observed latency
+ *
+ * Compares each task's latency against a slowly moving baseline:
+ * - Stable latency, gate saturated → grow the limit additively
+ * - Latency above baseline × tolerance, or a failure → shrink multiplicatively
+ *
+ * Stateless regarding the limit itself: the gate owns the current value,
+ * so manual setConcurrency() calls are never fought or forgotten.
+ */
+
+export interface AdaptiveLimitOptions {
+  /** Lower bound for the limit (default: 1) */
+  minLimit?: number;
+  /** Upper bound for the limit (default: 1000) */
+  maxLimit?: number;
+  /** Additive increase per healthy sample (default: 1) */
+  increase?: number;
+  /** Multiplicative decrease factor 0-1 (default: 0.9) */
+  backoffRatio?: number;
+  /** Latency / baseline ratio treated as congestion (default: 2) */
+  tolerance?: number;
+  /** EWMA weight of each sample in the baseline 0-1 (default: 0.1) */
+  smoothing?: number;
+}
+
+export interface LatencySample {
+  /** Execution time of the task in ms (queue wait excluded) */
+  latency: number;
+  /** Whether the task threw */
+  failed: boolean;
+  /** Units in flight when the task finished, including its own */
+  inflight: number;
+}
+
+export class AdaptiveLimit {
+  readonly minLimit: number;
+  readonly maxLimit: number;
+  private readonly increase: number;
+  private readonly backoffRatio: number;
+  private readonly tolerance: number;
+  private readonly smoothing: number;
+  private baseline: number | null = null;
+
+  constructor(options: AdaptiveLimitOptions = {}) {
+    this.minLimit = options.minLimit ?? 1;
+    this.maxLimit = options.maxLimit ?? 1000;
+    this.increase = options.increase ?? 1;
+    this.backoffRatio = options.backoffRatio ?? 0.9;
+    this.tolerance = options.tolerance ?? 2;
+    this.smoothing = options.smoothing ?? 0.1;
+
+    if (this.minLimit < 1) {
+      throw new Error("minLimit must be >= 1");
+    }
+    if (this.maxLimit < this.minLimit) {
+      throw new Error("maxLimit must be >= minLimit");
+    }
+    if (this.backoffRatio <= 0 || this.backoffRatio >= 1) {
+      throw new Error("backoffRatio must be between 0 and 1");
+    }
+  }
+
+  /** Latency baseline in ms (null until the first sample) */
+  get baselineLatency(): number | null {
+    return this.baseline;
+  }
+
+  /**
+   * Compute the next limit from the current one and a finished task.
+   */
+  update(limit: number, sample: LatencySample): number {
+    const baseline = this.baseline ?? sample.latency;
+    const congested =
+      sample.failed || sample.latency > baseline * this.tolerance;
+
+    // Failures say nothing about latency - keep them out of the baseline
+    if (!sample.failed) {
+      this.baseline = baseline + this.smoothing * (sample.latency - baseline);
+    }
+
+    let next = limit;
+    if (congested) {
+      next = Math.floor(limit * this.backoffRatio);
+    } else if (sample.inflight * 2 >= limit) {
+      // Only grow while the limit is actually being used
+      next = limit + this.increase;
+    }
+    return this.clamp(next);
+  }
+
+  clamp(limit: number): number {
+    return Math.max(this.minLimit, Math.min(this.maxLimit, limit));
+  }
+}
@@ -1,8 +1,21 @@
 import assert from "node:assert/strict";
 import { AsyncLocalStorage } from "node:async_hooks";
 import { describe, test } from "node:test";
-import { AbortError, AsyncGate, TimeoutError } from "./async-gate.ts";
+import { setFlagsFromString } from "node:v8";
+import { runInNewContext } from "node:vm";
+import {
+  AbortError,
+  AsyncGate,
+  DeadlineExceededError,
+  GateClosedError,
+  type GateEvent,
+  type LeakReport,
+  OverloadError,
+  QueueFullError,
+  TimeoutError,
+} from "./async-gate.ts";
 import { ContextCarrier } from "./context-carrier.ts";
+import { Histogram } from "./histogram.ts";
 
 interface TraceContext {
   traceId: string;
@@ -361,3 +374,1227 @@ describe("Edge cases and invariants", () => {
     );
   });
 });
+
+describe("Priority lanes", () => {
+  test("higher priority waiters dispatch first, FIFO within a lane", async () => {
+    const gate = new AsyncGate({ concurrency: 1 });
+    const order: string[] = [];
+    const release = await gate.acquire();
+
+    const tasks = [
+      gate.run(async () => { order.push("bulk-1"); }),
+      gate.run(async () => { order.push("bulk-2"); }),
+      gate.run(async () => { order.push("admin-1"); }, { priority: 10 }),
+      gate.run(async () => { order.push("health"); }, { priority: 20 }),
+      gate.run(async () => { order.push("admin-2"); }, { priority: 10 }),
+    ];
+
+    release();
+    await Promise.all(tasks);
+
+    assert.deepEqual(order, ["health", "admin-1", "admin-2", "bulk-1", "bulk-2"]);
+  });
+
+  test("aging promotes long-waiting low-priority waiters", async () => {
+    const gate = new AsyncGate({ concurrency: 1, aging: { interval: 20 } });
+    const order: string[] = [];
+    const release = await gate.acquire();
+
+    const low = gate.run(async () => { order.push("low"); }, { priority: 0 });
+    await delay(50); // low has aged by at least 2 levels
+    const high = gate.run(async () => { order.push("high"); }, { priority: 1 });
+
+    release();
+    await Promise.all([low, high]);
+
+    assert.deepEqual(order, ["low", "high"], "Aged waiter should overtake");
+  });
+
+  test("maxBoost caps aging promotion", async () => {
+    const gate = new AsyncGate({
+      concurrency: 1,
+      aging: { interval: 10, maxBoost: 1 },
+    });
+    const order: string[] = [];
+    const release = await gate.acquire();
+
+    const low = gate.run(async () => { order.push("low"); }, { priority: 0 });
+    await delay(50);
+    const high = gate.run(async () => { order.push("high"); }, { priority: 5 });
+
+    release();
+    await Promise.all([low, high]);
+
+    assert.deepEqual(order, ["high", "low"], "Boost must not exceed maxBoost");
+  });
+
+  test("timeout in one lane does not disturb others", async () => {
+    const gate = new AsyncGate({ concurrency: 1 });
+    const order: string[] = [];
+    const release = await gate.acquire();
+
+    const doomed = gate.acquire({ priority: 5, timeout: 10 });
+    const survivor = gate.run(async () => { order.push("low"); });
+
+    await assert.rejects(() => doomed, TimeoutError);
+    release();
+    await survivor;
+
+    assert.deepEqual(order, ["low"]);
+  });
+});
+
+describe("Weighted permits", () => {
+  test("a weighted permit occupies several units", async () => {
+    const gate = new AsyncGate({ concurrency: 4 });
+    const heavy = await gate.acquire({ weight: 3 });
+    const light = await gate.acquire();
+
+    let admitted = false;
+    const pending = gate.acquire().then((release) => {
+      admitted = true;
+      return release;
+    });
+    await delay(10);
+    assert.equal(admitted, false, "Gate should be full at 4 units");
+
+    heavy();
+    (await pending)();
+    light();
+  });
+
+  test("heavy waiter at the head is not starved by lighter ones", async () => {
+    const gate = new AsyncGate({ concurrency: 4 });
+    const order: string[] = [];
+    const first = await gate.acquire({ weight: 2 });
+    const second = await gate.acquire({ weight: 2 });
+
+    const heavy = gate.run(async () => { order.push("heavy"); }, { weight: 4 });
+    const light = gate.run(async () => { order.push("light"); });
+
+    first(); // 2 units free: light would fit, but heavy is first in line
+    await delay(10);
+    assert.deepEqual(order, [], "Light waiter must not overtake heavy head");
+
+    second();
+    await Promise.all([heavy, light]);
+    assert.deepEqual(order, ["heavy", "light"]);
+  });
+
+  test("partial release hands units to waiters early", async () => {
+    const gate = new AsyncGate({ concurrency: 4 });
+    const release = await gate.acquire({ weight: 4 });
+    const order: string[] = [];
+
+    const waiter = gate.run(async () => { order.push("waiter"); }, { weight: 2 });
+
+    release(2);
+    await waiter;
+    assert.deepEqual(order, ["waiter"]);
+
+    release(); // remaining 2 units
+    assert.throws(() => release(), /twice/);
+  });
+
+  test("releasing more units than held throws", async () => {
+    const gate = new AsyncGate({ concurrency: 4 });
+    const release = await gate.acquire({ weight: 2 });
+    assert.throws(() => release(3), /Cannot release 3 units, 2 held/);
+    release();
+  });
+
+  test("weight above concurrency is rejected", async () => {
+    const gate = new AsyncGate({ concurrency: 2 });
+    await assert.rejects(() => gate.acquire({ weight: 3 }), /Weight must be/);
+  });
+
+  test("timed-out heavy head unblocks lighter waiters", async () => {
+    const gate = new AsyncGate({ concurrency: 2 });
+    const release = await gate.acquire();
+
+    const heavy = gate.acquire({ weight: 2, timeout: 20 });
+    const light = gate.acquire();
+
+    await assert.rejects(() => heavy, TimeoutError);
+    (await light)();
+    release();
+  });
+});
+
+describe("Runtime resizing", () => {
+  test("growing dispatches queued waiters immediately, in FIFO order", async () => {
+    const gate = new AsyncGate({ concurrency: 1 });
+    const order: number[] = [];
+    const release = await gate.acquire();
+
+    const tasks = [1, 2, 3].map((n) =>
+      gate.acquire().then((r) => {
+        order.push(n);
+        return r;
+      })
+    );
+    await delay(5);
+    assert.deepEqual(order, []);
+
+    gate.setConcurrency(3);
+    const releases = await Promise.all(tasks.slice(0, 2));
+    assert.deepEqual(order, [1, 2], "Two new slots go to the two oldest waiters");
+
+    release();
+    const last = await tasks[2];
+    assert.deepEqual(order, [1, 2, 3]);
+    [...releases, last].forEach((r) => r());
+  });
+
+  test("shrinking lets in-flight holders finish without revoking permits", async () => {
+    const gate = new AsyncGate({ concurrency: 3 });
+    const held = await Promise.all([gate.acquire(), gate.acquire(), gate.acquire()]);
+
+    gate.setConcurrency(1);
+
+    let admitted = false;
+    const waiter = gate.acquire().then((r) => {
+      admitted = true;
+      return r;
+    });
+
+    held[0]();
+    held[1]();
+    await delay(5);
+    assert.equal(admitted, false, "Still at the new limit with one holder");
+
+    held[2]();
+    (await waiter)();
+    assert.equal(admitted, true);
+  });
+
+  test("settled waiters are not resurrected by a resize", async () => {
+    const gate = new AsyncGate({ concurrency: 1 });
+    const release = await gate.acquire();
+
+    await assert.rejects(() => gate.acquire({ timeout: 5 }), TimeoutError);
+    gate.setConcurrency(2);
+
+    // Only the live holder counts - a fresh acquire takes the new slot
+    const second = await gate.acquire({ timeout: 5 });
+    second();
+    release();
+  });
+
+  test("shrinking rejects queued waiters that can no longer fit", async () => {
+    const gate = new AsyncGate({ concurrency: 4 });
+    const release = await gate.acquire();
+    const heavy = gate.acquire({ weight: 4 });
+
+    gate.setConcurrency(2);
+    await assert.rejects(() => heavy, /Weight must be an integer in 1..2/);
+    release();
+  });
+
+  test("rejects non-positive concurrency", () => {
+    const gate = new AsyncGate({ concurrency: 1 });
+    assert.throws(() => gate.setConcurrency(0), /Concurrency must be > 0/);
+  });
+});
+
+describe("Lifecycle: close() and drain()", () => {
+  test("close() rejects queued waiters and new acquisitions", async () => {
+    const gate = new AsyncGate({ concurrency: 1 });
+    const release = await gate.acquire();
+    const queued = gate.acquire();
+
+    gate.close();
+
+    await assert.rejects(() => queued, GateClosedError);
+    await assert.rejects(() => gate.acquire(), GateClosedError);
+    await assert.rejects(() => gate.run(async () => "never"), GateClosedError);
+    assert.equal(gate.closed, true);
+    release();
+  });
+
+  test("close() does not revoke held permits", async () => {
+    const gate = new AsyncGate({ concurrency: 1 });
+    let finished = false;
+
+    const inFlight = gate.run(async () => {
+      await delay(20);
+      finished = true;
+    });
+    gate.close();
+
+    await inFlight;
+    assert.equal(finished, true);
+  });
+
+  test("drain() resolves once running reaches zero", async () => {
+    const gate = new AsyncGate({ concurrency: 2 });
+    const events: string[] = [];
+
+    const tasks = [10, 30].map((ms) =>
+      gate.run(async () => {
+        await delay(ms);
+        events.push(`done:${ms}`);
+      })
+    );
+    gate.close();
+    await gate.drain();
+    events.push("drained");
+
+    await Promise.all(tasks);
+    assert.deepEqual(events, ["done:10", "done:30", "drained"]);
+  });
+
+  test("drain() on an idle gate resolves immediately", async () => {
+    const gate = new AsyncGate({ concurrency: 1 });
+    await gate.drain();
+  });
+
+  test("wrap() iterator stops on a closed gate and cleans up the source", async () => {
+    const gate = new AsyncGate({ concurrency: 1 });
+    let sourceClosed = false;
+
+    async function* source() {
+      try {
+        for (let i = 0; ; i++) yield i;
+      } finally {
+        sourceClosed = true;
+      }
+    }
+
+    const seen: number[] = [];
+    await assert.rejects(async () => {
+      for await (const { item } of gate.wrap(source())) {
+        seen.push(item);
+        if (item === 1) gate.close();
+      }
+    }, GateClosedError);
+
+    assert.deepEqual(seen, [0, 1]);
+    assert.equal(sourceClosed, true, "Source return() should run");
+    await gate.drain();
+  });
+});
+
+describe("Task signal", () => {
+  // Settles only when the task's signal fires
+  const untilAborted = (signal: AbortSignal) =>
+    new Promise<never>((_, reject) => {
+      signal.addEventListener("abort", () => reject(signal.reason));
+    });
+
+  test("caller's abort reaches running work with its reason", async () => {
+    const gate = new AsyncGate({ concurrency: 1 });
+    const controller = new AbortController();
+
+    const running = gate.run(untilAborted, { signal: controller.signal });
+    await delay(5);
+    controller.abort(new Error("caller gave up"));
+
+    await assert.rejects(() => running, /caller gave up/);
+    assert.equal(gate.getStats().running, 0);
+  });
+
+  test("close() aborts in-flight work with GateClosedError", async () => {
+    const gate = new AsyncGate({ concurrency: 2 });
+
+    const running = gate.run(untilAborted);
+    await delay(5);
+    gate.close();
+
+    await assert.rejects(() => running, GateClosedError);
+    await gate.drain();
+  });
+
+  test("signal stays quiet for work that finishes normally", async () => {
+    const gate = new AsyncGate({ concurrency: 1 });
+    const controller = new AbortController();
+    let seen: AbortSignal | undefined;
+
+    await gate.run(
+      async (signal) => {
+        seen = signal;
+      },
+      { signal: controller.signal }
+    );
+    controller.abort();
+    gate.close();
+
+    assert.equal(seen?.aborted, false);
+  });
+});
+
+describe("Bounded queue", () => {
+  test("reject policy sheds the new arrival with the queue depth", async () => {
+    const gate = new AsyncGate({ concurrency: 1, maxQueueLength: 2 });
+    const release = await gate.acquire();
+    const queued = [gate.acquire(), gate.acquire()];
+
+    await assert.rejects(
+      () => gate.acquire(),
+      (e: unknown) => e instanceof QueueFullError && e.queueLength === 2
+    );
+
+    release();
+    (await queued[0])();
+    (await queued[1])();
+  });
+
+  test("maxQueueLength 0 rejects immediately when no slot is free", async () => {
+    const gate = new AsyncGate({ concurrency: 1, maxQueueLength: 0 });
+    const release = await gate.acquire();
+    await assert.rejects(() => gate.acquire(), QueueFullError);
+    release();
+  });
+
+  test("evict-oldest sheds the longest waiter", async () => {
+    const gate = new AsyncGate({
+      concurrency: 1,
+      maxQueueLength: 2,
+      overflow: "evict-oldest",
+    });
+    const release = await gate.acquire();
+    const oldest = gate.acquire();
+    const middle = gate.acquire();
+    const newest = gate.acquire();
+
+    await assert.rejects(() => oldest, QueueFullError);
+    release();
+    (await middle)();
+    (await newest)();
+  });
+
+  test("evict-nearest-deadline sheds the waiter closest to timing out", async () => {
+    const gate = new AsyncGate({
+      concurrency: 1,
+      maxQueueLength: 2,
+      overflow: "evict-nearest-deadline",
+    });
+    const release = await gate.acquire();
+    const patient = gate.acquire();
+    const hurried = gate.acquire({ timeout: 1000 });
+    const arrival = gate.acquire({ timeout: 5000 });
+
+    await assert.rejects(() => hurried, QueueFullError);
+    release();
+    (await patient)();
+    (await arrival)();
+  });
+
+  test("evict-nearest-deadline sheds the arrival when it expires first", async () => {
+    const gate = new AsyncGate({
+      concurrency: 1,
+      maxQueueLength: 1,
+      overflow: "evict-nearest-deadline",
+    });
+    const release = await gate.acquire();
+    const queued = gate.acquire({ timeout: 5000 });
+
+    await assert.rejects(() => gate.acquire({ timeout: 100 }), QueueFullError);
+
+    release();
+    (await queued)();
+  });
+
+  test("departed waiters free queue space", async () => {
+    const gate = new AsyncGate({ concurrency: 1, maxQueueLength: 1 });
+    const release = await gate.acquire();
+
+    await assert.rejects(() => gate.acquire({ timeout: 5 }), TimeoutError);
+    const next = gate.acquire();
+
+    release();
+    (await next)();
+  });
+});
+
+describe("Deadlines", () => {
+  const deadlines = new AsyncLocalStorage<{ deadline?: number }>();
+  const contextGate = (options: { minBudget?: number } = {}) =>
+    new AsyncGate({
+      concurrency: 1,
+      store: deadlines,
+      getDeadline: (ctx) => ctx.deadline,
+      ...options,
+    });
+
+  test("rejects up front once the deadline has passed", async () => {
+    const gate = new AsyncGate({ concurrency: 1 });
+    await assert.rejects(
+      () => gate.acquire({ deadline: Date.now() - 1 }),
+      DeadlineExceededError
+    );
+    assert.equal(gate.getStats().running, 0);
+  });
+
+  test("rejects when less than minBudget would remain", async () => {
+    const gate = contextGate({ minBudget: 100 });
+    await deadlines.run({ deadline: Date.now() + 50 }, async () => {
+      await assert.rejects(() => gate.acquire(), DeadlineExceededError);
+    });
+    await deadlines.run({ deadline: Date.now() + 500 }, async () => {
+      (await gate.acquire())();
+    });
+  });
+
+  test("queued waiter expires at the context deadline", async () => {
+    const gate = contextGate();
+    const release = await gate.acquire();
+    const started = Date.now();
+
+    await deadlines.run({ deadline: started + 30 }, async () => {
+      await assert.rejects(
+        () => gate.acquire({ timeout: 1000 }),
+        (e: unknown) =>
+          e instanceof DeadlineExceededError && e.deadline === started + 30
+      );
+    });
+    assert.ok(Date.now() - started < 500);
+    assert.equal(gate.getStats().queued, 0);
+    release();
+  });
+
+  test("tighter deadline wins and timeout keeps its own error", async () => {
+    const gate = contextGate();
+    const release = await gate.acquire();
+
+    await deadlines.run({ deadline: Date.now() + 1000 }, async () => {
+      await assert.rejects(() => gate.acquire({ timeout: 20 }), TimeoutError);
+      await assert.rejects(
+        () => gate.acquire({ deadline: Date.now() + 20 }),
+        DeadlineExceededError
+      );
+    });
+    await deadlines.run({ deadline: Date.now() + 20 }, async () => {
+      await assert.rejects(
+        () => gate.acquire({ deadline: Date.now() + 1000 }),
+        DeadlineExceededError
+      );
+    });
+    release();
+  });
+
+  test("run() inherits the scheduling context's deadline", async () => {
+    const events: GateEvent[] = [];
+    const gate = new AsyncGate({
+      concurrency: 1,
+      store: deadlines,
+      getDeadline: (ctx) => ctx.deadline,
+      onEvent: (e) => events.push(e),
+    });
+    const release = await gate.acquire();
+
+    await deadlines.run({ deadline: Date.now() + 20 }, async () => {
+      await assert.rejects(
+        () => gate.run(async () => "never"),
+        DeadlineExceededError
+      );
+    });
+    assert.equal(events.at(-1)?.outcome, "timeout");
+    release();
+
+    const deadline = Date.now() + 1000;
+    const seen = await deadlines.run({ deadline }, () =>
+      gate.run(async () => deadlines.getStore()?.deadline)
+    );
+    assert.equal(seen, deadline);
+  });
+
+  test("run() hands a tighter explicit deadline to nested calls", async () => {
+    const gate = new AsyncGate({
+      concurrency: 2,
+      store: deadlines,
+      getDeadline: (ctx) => ctx.deadline,
+      setDeadline: (ctx, deadline) => ({ ...ctx, deadline }),
+    });
+    const outer = Date.now() + 1000;
+    const tight = Date.now() + 500;
+
+    const seen = await deadlines.run({ deadline: outer }, () =>
+      gate.run(
+        () => gate.run(async () => deadlines.getStore()?.deadline),
+        { deadline: tight }
+      )
+    );
+    assert.equal(seen, tight);
+
+    // A looser explicit deadline leaves the context alone
+    const kept = await deadlines.run({ deadline: tight }, () =>
+      gate.run(async () => deadlines.getStore()?.deadline, { deadline: outer })
+    );
+    assert.equal(kept, tight);
+  });
+});
+
+describe("Fair queuing", () => {
+  // Queue waiters behind a held slot, then record grant order as they cycle
+  async function grantOrder(
+    gate: AsyncGate<unknown>,
+    flows: string[]
+  ): Promise<string[]> {
+    const order: string[] = [];
+    const hold = await gate.acquire({ flow: "holder" });
+    const waiters = flows.map((flow) =>
+      gate.acquire({ flow }).then((release) => {
+        order.push(flow);
+        setImmediate(release);
+      })
+    );
+    hold();
+    await Promise.all(waiters);
+    return order;
+  }
+
+  test("round-robins across flows, FIFO within each", async () => {
+    const gate = new AsyncGate({ concurrency: 1, fairness: {} });
+    const noisy = Array<string>(6).fill("noisy");
+    const order = await grantOrder(gate, [...noisy, "quiet", "quiet"]);
+    assert.deepEqual(order.slice(0, 5), ["noisy", "quiet", "noisy", "quiet", "noisy"]);
+    assert.deepEqual(order.slice(5), ["noisy", "noisy", "noisy"]);
+  });
+
+  test("dispatches by share", async () => {
+    const gate = new AsyncGate({
+      concurrency: 1,
+      fairness: { share: (flow) => (flow === "gold" ? 2 : 1) },
+    });
+    const order = await grantOrder(gate, [
+      ...Array<string>(6).fill("basic"),
+      ...Array<string>(6).fill("gold"),
+    ]);
+    const firstSix = order.slice(0, 6);
+    assert.equal(firstSix.filter((f) => f === "gold").length, 4);
+    assert.equal(firstSix.filter((f) => f === "basic").length, 2);
+  });
+
+  test("priority still wins over fair share", async () => {
+    const gate = new AsyncGate({ concurrency: 1, fairness: {} });
+    const order: string[] = [];
+    const hold = await gate.acquire({ flow: "a" }); // a is now ahead on service
+    const waiters = [
+      gate.acquire({ flow: "b" }).then((r) => (order.push("b"), r())),
+      gate.acquire({ flow: "a", priority: 1 }).then((r) => (order.push("a"), r())),
+    ];
+    hold();
+    await Promise.all(waiters);
+    assert.deepEqual(order, ["a", "b"]);
+  });
+
+  test("without fairness, flow keys are ignored", async () => {
+    const gate = new AsyncGate({ concurrency: 1 });
+    const order = await grantOrder(gate, ["a", "a", "b"]);
+    assert.deepEqual(order, ["a", "a", "b"]);
+    assert.equal(gate.getStats().flows, undefined);
+  });
+
+  test("reads the flow key from the context", async () => {
+    const gate = new AsyncGate({
+      concurrency: 1,
+      store,
+      fairness: { flowKey: (ctx) => ctx.requestId },
+    });
+    const order: string[] = [];
+    const hold = await gate.acquire();
+    const submit = (requestId: string) =>
+      store.run({ traceId: "t", requestId }, () =>
+        gate.run(async () => {
+          order.push(requestId);
+          await delay(1);
+        })
+      );
+    const tasks = [submit("a"), submit("a"), submit("a"), submit("b")];
+    hold();
+    await Promise.all(tasks);
+    assert.deepEqual(order, ["a", "b", "a", "a"]);
+  });
+
+  test("exposes per-flow depth and wait time, forgets idle flows", async () => {
+    const gate = new AsyncGate({ concurrency: 1, fairness: {} });
+    const hold = await gate.acquire({ flow: "a" });
+    const queued = [gate.acquire({ flow: "a" }), gate.acquire({ flow: "b" })];
+    await delay(10);
+
+    const { flows } = gate.getStats();
+    assert.deepEqual(
+      { a: flows!.a.queued, b: flows!.b.queued },
+      { a: 1, b: 1 }
+    );
+    assert.equal(flows!.a.running, 1);
+
+    hold();
+    const release = await queued[1]; // b has used nothing yet
+    const { flows: during } = gate.getStats();
+    assert.equal(during!.b.running, 1);
+    assert.ok(during!.b.waitTime.max >= 9, "Wait time is recorded per flow");
+    release();
+    (await queued[0])();
+
+    assert.deepEqual(gate.getStats().flows, {});
+  });
+
+  for (const overflow of ["evict-oldest", "evict-nearest-deadline"] as const) {
+    test(`${overflow} keeps the arrival's flow when its last waiter is shed`, async () => {
+      const gate = new AsyncGate({
+        concurrency: 1,
+        maxQueueLength: 1,
+        overflow,
+        fairness: {},
+      });
+      const hold = await gate.acquire({ flow: "b" });
+      const shed = gate.acquire({ flow: "a", timeout: 100 });
+      const kept = gate.acquire({ flow: "a", timeout: 1000 });
+      await assert.rejects(shed, QueueFullError);
+
+      assert.equal(gate.getStats().flows!.a?.queued, 1);
+      hold();
+      const release = await kept;
+      assert.equal(gate.getStats().flows!.a?.running, 1);
+      release();
+      assert.deepEqual(gate.getStats().flows, {});
+    });
+  }
+});
+
+describe("Queue discipline", () => {
+  // Acquire in order behind a held slot; record the order they are granted in
+  function queueLabels(
+    gate: AsyncGate<unknown>,
+    labels: string[],
+    order: string[]
+  ) {
+    return labels.map((label) =>
+      gate.acquire().then((release) => {
+        order.push(label);
+        setImmediate(release);
+      })
+    );
+  }
+
+  test("adaptive-lifo stays FIFO while the queue drains in time", async () => {
+    const gate = new AsyncGate({
+      concurrency: 1,
+      discipline: "adaptive-lifo",
+      codel: { interval: 1000 },
+    });
+    const order: string[] = [];
+    const hold = await gate.acquire();
+    const waiters = queueLabels(gate, ["a", "b", "c"], order);
+    hold();
+    await Promise.all(waiters);
+    assert.deepEqual(order, ["a", "b", "c"]);
+  });
+
+  test("a backlog under the target is not congested", async () => {
+    const gate = new AsyncGate({
+      concurrency: 1,
+      discipline: "adaptive-lifo",
+      codel: { interval: 10, target: 200 },
+    });
+    const order: string[] = [];
+    const hold = await gate.acquire();
+    const waiters = queueLabels(gate, ["a", "b", "c"], order);
+    await delay(30); // Never drained, but no waiter reached the target
+    hold();
+    await Promise.all(waiters);
+    assert.deepEqual(order, ["a", "b", "c"]);
+  });
+
+  test("switches to LIFO when congested and back to FIFO once drained", async () => {
+    const gate = new AsyncGate({
+      concurrency: 1,
+      discipline: "adaptive-lifo",
+      codel: { interval: 20, target: 10 },
+    });
+    const order: string[] = [];
+    const hold = await gate.acquire();
+    const stale = gate.acquire();
+    await delay(40); // Sojourn time above target for longer than interval
+    const congested = queueLabels(gate, ["a", "b", "c"], order);
+    await assert.rejects(stale, OverloadError);
+    hold();
+    await Promise.all(congested);
+    assert.deepEqual(order, ["c", "b", "a"]);
+
+    order.length = 0;
+    const next = await gate.acquire();
+    const drained = queueLabels(gate, ["d", "e"], order);
+    next();
+    await Promise.all(drained);
+    assert.deepEqual(order, ["d", "e"]);
+  });
+
+  test("sheds waiters older than the target with OverloadError", async () => {
+    const events: GateEvent[] = [];
+    const gate = new AsyncGate({
+      concurrency: 1,
+      discipline: "adaptive-lifo",
+      codel: { interval: 20, target: 10 },
+      onEvent: (e) => events.push(e),
+    });
+    const hold = await gate.acquire();
+    const stale = [gate.acquire(), gate.acquire()];
+    await delay(40);
+
+    const fresh = gate.acquire(); // Arrival runs the sweep
+    for (const waiter of stale) {
+      await assert.rejects(
+        waiter,
+        (e: unknown) => e instanceof OverloadError && e.sojournMs >= 10
+      );
+    }
+    assert.equal(events.filter((e) => e.outcome === "shed").length, 2);
+
+    hold();
+    (await fresh)();
+  });
+
+  test("fifo never sheds on queueing delay", async () => {
+    const gate = new AsyncGate({
+      concurrency: 1,
+      codel: { interval: 1, target: 1 },
+    });
+    const hold = await gate.acquire();
+    const waiter = gate.acquire();
+    await delay(20);
+    const late = gate.acquire();
+    hold();
+    (await waiter)();
+    (await late)();
+  });
+});
+
+describe("Queue observability", () => {
+  test("reports every queue decision with wait time and depth", async () => {
+    const events: GateEvent[] = [];
+    const gate = new AsyncGate({
+      concurrency: 1,
+      onEvent: (e) => events.push(e),
+    });
+
+    const release = await gate.acquire();
+    const queued = gate.acquire({ priority: 2 });
+    const doomed = gate.acquire({ timeout: 10 });
+    await assert.rejects(() => doomed, TimeoutError);
+    await delay(10);
+    release();
+    (await queued)();
+
+    assert.deepEqual(
+      events.map((e) => [e.outcome, e.queueLength]),
+      [
+        ["acquired", 0],
+        ["queued", 1],
+        ["queued", 2],
+        ["timeout", 1],
+        ["acquired", 0],
+      ]
+    );
+    assert.equal(events[0].waitMs, 0, "Fast path does not wait");
+    assert.ok(events[3].waitMs >= 9, "Timeout carries its wait duration");
+    assert.ok(events[4].waitMs >= 15, "Dispatch carries its wait duration");
+    assert.equal(events[4].priority, 2);
+  });
+
+  test("reports immediate rejections", async () => {
+    const outcomes: string[] = [];
+    const gate = new AsyncGate({
+      concurrency: 1,
+      maxQueueLength: 0,
+      onEvent: (e) => outcomes.push(e.outcome),
+    });
+
+    const release = await gate.acquire();
+    await assert.rejects(() => gate.acquire(), QueueFullError);
+    gate.close();
+    await assert.rejects(() => gate.acquire(), GateClosedError);
+    release();
+
+    assert.deepEqual(outcomes, ["acquired", "shed", "closed"]);
+  });
+
+  test("separates queueing delay from execution time", async () => {
+    const gate = new AsyncGate({ concurrency: 1 });
+
+    await Promise.all([
+      gate.run(() => delay(30)),
+      gate.run(() => delay(0)),
+    ]);
+
+    const { waitTime, runTime } = gate.getStats();
+    assert.equal(waitTime.count, 2);
+    assert.equal(runTime.count, 2);
+    assert.ok(waitTime.max >= 25, "Second task queued behind the first");
+    assert.ok(runTime.max >= 25, "First task ran for ~30ms");
+  });
+
+  test("histogram estimates percentiles from bucket bounds", () => {
+    const histogram = new Histogram([10, 100, 1000]);
+    for (let i = 0; i < 90; i++) histogram.record(5);
+    for (let i = 0; i < 10; i++) histogram.record(500);
+
+    const snapshot = histogram.snapshot();
+    assert.equal(snapshot.count, 100);
+    assert.equal(snapshot.p50, 10);
+    assert.equal(snapshot.p95, 500, "Capped by the observed max");
+    assert.deepEqual(snapshot.buckets.map((b) => b.count), [90, 0, 10, 0]);
+  });
+});
+
+describe("Leaked permits", () => {
+  test("lease TTL force-reclaims a forgotten permit and reports it", async () => {
+    const reports: LeakReport[] = [];
+    const gate = new AsyncGate({
+      concurrency: 1,
+      leaseTimeout: 20,
+      onLeak: (r) => reports.push(r),
+    });
+
+    const forgotten = await gate.acquire();
+    const waiter = gate.acquire({ timeout: 200 });
+
+    (await waiter)(); // admitted once the lease expires
+    assert.equal(reports.length, 1);
+    assert.equal(reports[0].reason, "lease-expired");
+    assert.equal(reports[0].units, 1);
+    assert.ok(reports[0].heldMs >= 15);
+    assert.match(reports[0].stack ?? "", /async-gate\.test\.ts/);
+
+    forgotten(); // late release after reclaim is a no-op
+    assert.equal(gate.getStats().running, 0);
+  });
+
+  test("released permits never trigger the lease", async () => {
+    const reports: LeakReport[] = [];
+    const gate = new AsyncGate({
+      concurrency: 1,
+      leaseTimeout: 10,
+      onLeak: (r) => reports.push(r),
+    });
+
+    await gate.run(() => delay(1));
+    await delay(30);
+    assert.deepEqual(reports, []);
+  });
+
+  test("detects release functions collected without being called", async () => {
+    setFlagsFromString("--expose-gc");
+    const gc = runInNewContext("gc") as () => void;
+    const reports: LeakReport[] = [];
+    const gate = new AsyncGate({
+      concurrency: 1,
+      detectLeaks: true,
+      onLeak: (r) => reports.push(r),
+    });
+
+    await (async () => {
+      await gate.acquire({ weight: 1 }); // dropped on the floor
+    })();
+
+    for (let i = 0; i < 20 && reports.length === 0; i++) {
+      gc();
+      await delay(10);
+    }
+
+    assert.equal(reports.length, 1, "Leak should be reported after GC");
+    assert.equal(reports[0].reason, "collected");
+    assert.equal(gate.getStats().running, 0, "Capacity should be reclaimed");
+  });
+});
+
+describe("Disposable permits", () => {
+  test("disposing a permit releases it", async () => {
+    const gate = new AsyncGate({ concurrency: 1 });
+
+    const permit = await gate.acquire();
+    permit[Symbol.dispose]();
+
+    const next = await gate.acquire({ timeout: 10 });
+    await next[Symbol.asyncDispose]();
+    assert.equal(gate.getStats().running, 0);
+  });
+
+  test("permit is still callable as a ReleaseFunction", async () => {
+    const gate = new AsyncGate({ concurrency: 2 });
+    const permit = await gate.acquire({ weight: 2 });
+
+    permit(1);
+    assert.equal(gate.getStats().running, 1);
+    permit[Symbol.dispose](); // returns the remaining unit
+    assert.equal(gate.getStats().running, 0);
+  });
+
+  test("double dispose and dispose after release are no-ops", async () => {
+    const gate = new AsyncGate({ concurrency: 1 });
+
+    const disposed = await gate.acquire();
+    disposed[Symbol.dispose]();
+    disposed[Symbol.dispose]();
+
+    const released = await gate.acquire();
+    released();
+    released[Symbol.dispose]();
+    assert.throws(() => released(), /twice/, "Explicit double release still throws");
+
+    assert.equal(gate.getStats().running, 0);
+  });
+
+  test("dispose after a forced lease reclaim is a no-op", async () => {
+    const gate = new AsyncGate({ concurrency: 1, leaseTimeout: 5, onLeak: () => {} });
+    const permit = await gate.acquire();
+
+    await delay(20);
+    const next = await gate.acquire({ timeout: 10 });
+    permit[Symbol.dispose]();
+    assert.equal(gate.getStats().running, 1, "Must not release next's unit");
+    next();
+  });
+
+  test("ContextCarrier disposal drops context and forbids run()", async () => {
+    const carrier = store.run({ traceId: "dropped" }, () =>
+      new ContextCarrier(async () => store.getStore()?.traceId, store)
+    );
+
+    assert.equal(carrier.hasContext, true);
+    carrier[Symbol.dispose]();
+    carrier[Symbol.dispose]();
+    await carrier[Symbol.asyncDispose]();
+
+    assert.equal(carrier.isDisposed, true);
+    assert.equal(carrier.hasContext, false);
+    await assert.rejects(() => carrier.run(), /disposed/);
+  });
+});
+
+describe("AsyncGate.map() concurrent mapping", () => {
+  test("ordered mode yields in source order with bounded concurrency", async () => {
+    const gate = new AsyncGate({ concurrency: 3 });
+    let active = 0;
+    let maxActive = 0;
+
+    const results: number[] = [];
+    const mapped = gate.map(asyncRange(8), async (n) => {
+      active++;
+      maxActive = Math.max(maxActive, active);
+      await delay((8 - n) * 3); // later items finish first
+      active--;
+      return n * 10;
+    });
+    for await (const value of mapped) results.push(value);
+
+    assert.deepEqual(results, [0, 10, 20, 30, 40, 50, 60, 70]);
+    assert.equal(maxActive, 3);
+    assert.equal(gate.getStats().running, 0);
+  });
+
+  test("unordered mode yields in completion order", async () => {
+    const gate = new AsyncGate({ concurrency: 3 });
+    const results: number[] = [];
+
+    const mapped = gate.map(
+      asyncRange(3),
+      async (n) => {
+        await delay([30, 10, 20][n]);
+        return n;
+      },
+      { ordered: false }
+    );
+    for await (const value of mapped) results.push(value);
+
+    assert.deepEqual(results, [1, 2, 0]);
+  });
+
+  test("slow consumer applies backpressure to the source", async () => {
+    const gate = new AsyncGate({ concurrency: 2 });
+    let pulled = 0;
+
+    async function* source() {
+      for (let i = 0; i < 10; i++) {
+        pulled++;
+        yield i;
+      }
+    }
+
+    const mapped = gate.map(source(), async (n) => n);
+    await mapped.next();
+    await delay(20);
+
+    // One delivered, at most two buffered/in flight
+    assert.ok(pulled <= 3, `Source ran ahead: pulled ${pulled}`);
+    await mapped.return?.();
+    assert.equal(gate.getStats().running, 0);
+  });
+
+  test("propagates fn errors and returns the source", async () => {
+    const gate = new AsyncGate({ concurrency: 2 });
+    let sourceClosed = false;
+
+    async function* source() {
+      try {
+        for (let i = 0; ; i++) yield i;
+      } finally {
+        sourceClosed = true;
+      }
+    }
+
+    await assert.rejects(async () => {
+      for await (const _ of gate.map(source(), async (n) => {
+        if (n === 3) throw new Error("boom");
+        return n;
+      })) {
+        // consume
+      }
+    }, /boom/);
+
+    await delay(10);
+    assert.equal(sourceClosed, true);
+    assert.equal(gate.getStats().running, 0, "All slots must be returned");
+  });
+
+  test("propagates source errors", async () => {
+    const gate = new AsyncGate({ concurrency: 2 });
+
+    async function* source() {
+      yield 1;
+      throw new Error("source failed");
+    }
+
+    await assert.rejects(async () => {
+      for await (const _ of gate.map(source(), async (n) => n)) {
+        // consume
+      }
+    }, /source failed/);
+  });
+
+  test("early break cleans up the source and releases slots", async () => {
+    const gate = new AsyncGate({ concurrency: 4 });
+    let sourceClosed = false;
+
+    async function* source() {
+      try {
+        for (let i = 0; ; i++) yield i;
+      } finally {
+        sourceClosed = true;
+      }
+    }
+
+    for await (const value of gate.map(source(), async (n) => n)) {
+      if (value === 2) break;
+    }
+
+    await delay(10);
+    assert.equal(sourceClosed, true);
+    assert.equal(gate.getStats().running, 0);
+  });
+
+  test("restores the map() call context around fn", async () => {
+    const gate = new AsyncGate<TraceContext>({ concurrency: 2, store });
+
+    const observed = await store.run({ traceId: "mapper" }, async () => {
+      const seen: string[] = [];
+      for await (const id of gate.map(asyncRange(3, 5), async () =>
+        store.getStore()?.traceId ?? "none"
+      )) {
+        seen.push(id);
+      }
+      return seen;
+    });
+
+    assert.deepEqual(observed, ["mapper", "mapper", "mapper"]);
+  });
+
+  test("abort signal stops the map with AbortError", async () => {
+    const gate = new AsyncGate({ concurrency: 1 });
+    const controller = new AbortController();
+
+    const mapped = gate.map(asyncRange(100), async (n) => {
+      await delay(5);
+      return n;
+    }, { signal: controller.signal });
+
+    await mapped.next();
+    controller.abort();
+    await assert.rejects(() => mapped.next(), AbortError);
+    assert.deepEqual(await mapped.next(), { done: true, value: undefined });
+  });
+});
+
+describe("AsyncGate.wrapBatches() batching iterator", () => {
+  test("groups items by size, final batch may be partial", async () => {
+    const gate = new AsyncGate({ concurrency: 1 });
+    const batches: number[][] = [];
+
+    for await (const batch of gate.wrapBatches(asyncRange(7), { size: 3 })) {
+      batches.push(batch.map(({ item }) => item));
+    }
+
+    assert.deepEqual(batches, [[0, 1, 2], [3, 4, 5], [6]]);
+    assert.equal(gate.getStats().running, 0);
+  });
+
+  test("emits a partial batch when maxWait elapses", async () => {
+    const gate = new AsyncGate({ concurrency: 1 });
+    const batches: number[][] = [];
+
+    async function* bursty() {
+      yield 1;
+      yield 2;
+      await delay(60);
+      yield 3;
+    }
+
+    for await (const batch of gate.wrapBatches(bursty(), { size: 10, maxWait: 20 })) {
+      batches.push(batch.map(({ item }) => item));
+    }
+
+    assert.deepEqual(batches, [[1, 2], [3]], "Pending pull carries over");
+  });
+
+  test("holds one slot per batch, released on the next next()", async () => {
+    const gate = new AsyncGate({ concurrency: 1 });
+    const it = gate.wrapBatches(asyncRange(4), { size: 2 });
+
+    await it.next();
+    assert.equal(gate.getStats().running, 1, "Batch holds its slot");
+
+    await it.next();
+    assert.equal(gate.getStats().running, 1, "Previous slot released, new one held");
+
+    await it.next();
+    assert.equal(gate.getStats().running, 0);
+  });
+
+  test("items keep the context captured at their next() call", async () => {
+    const gate = new AsyncGate<TraceContext>({ concurrency: 1, store });
+    const it = gate.wrapBatches(asyncRange(4), { size: 2 });
+
+    const first = await store.run({ traceId: "batch-1" }, () => it.next());
+    const second = await store.run({ traceId: "batch-2" }, () => it.next());
+
+    const observed: string[] = [];
+    for (const { value } of [first, second]) {
+      for (const { item, run } of value!) {
+        await run(() => observed.push(`${item}:${store.getStore()?.traceId}`));
+      }
+    }
+
+    assert.deepEqual(observed, ["0:batch-1", "1:batch-1", "2:batch-2", "3:batch-2"]);
+    await it.return?.();
+  });
+
+  test("early break releases the slot and returns the source", async () => {
+    const gate = new AsyncGate({ concurrency: 1 });
+    let sourceClosed = false;
+
+    async function* source() {
+      try {
+        for (let i = 0; ; i++) yield i;
+      } finally {
+        sourceClosed = true;
+      }
+    }
+
+    for await (const _batch of gate.wrapBatches(source(), { size: 5 })) break;
+
+    assert.equal(sourceClosed, true);
+    assert.equal(gate.getStats().running, 0);
+  });
+});
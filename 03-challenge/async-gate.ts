@@ -1,4 +1,10 @@
 import { AsyncLocalStorage } from "node:async_hooks";
+import {
+  AdaptiveLimit,
+  type AdaptiveLimitOptions,
+  type LatencySample,
+} from "./adaptive-limit.ts";
+import { Histogram, type HistogramSnapshot } from "./histogram.ts";
 
 /**
  * AsyncGate - Context-aware async concurrency limiter with backpressure iteration
@@ -6,13 +12,188 @@ import { AsyncLocalStorage } from "node:async_hooks";
  * INVARIANT: Every task observes the context active at SCHEDULE-TIME,
  * not the context active when it happens to run.
  *
- * Features: FIFO, cancellation, timeout, backpressure iterator, context propagation
+ * Features: FIFO, priority lanes with aging, weighted permits, cancellation,
+ * timeout, deadlines, fair queuing across flows, bounded queue,
+ * adaptive LIFO/CoDel discipline, adaptive limit, close/drain lifecycle, queue events,
+ * lease TTL and leak detection, backpressure iterator, batching iterator,
+ * concurrent map, context propagation
  */
 
-export type ReleaseFunction = () => void;
+/**
+ * Returns permits to the gate. Called without arguments it returns everything
+ * still held; `units` returns part of a weighted permit early.
+ */
+export type ReleaseFunction = (units?: number) => void;
+
+/**
+ * What acquire() resolves to: a ReleaseFunction that is also disposable.
+ *
+ * ```ts
+ * using permit = await gate.acquire();
+ * ```
+ *
+ * Disposal returns whatever is still held and is idempotent - unlike a
+ * second release() call, disposing twice (or after release) is a no-op.
+ */
+export type Permit = ReleaseFunction & Disposable & AsyncDisposable;
 export interface AcquireOptions {
   timeout?: number;
   signal?: AbortSignal;
+  /** Priority lane - higher values dispatch first (default: 0) */
+  priority?: number;
+  /** Units of concurrency this permit occupies (default: 1) */
+  weight?: number;
+  /** Absolute deadline (epoch ms); the context deadline still applies, tighter wins */
+  deadline?: number;
+  /** Flow (tenant) key for fair queuing - overrides fairness.flowKey */
+  flow?: string;
+}
+
+/**
+ * Aging policy - prevents starvation of low-priority lanes.
+ * A waiter gains one priority level per `interval` ms spent in the queue.
+ */
+export interface AgingOptions {
+  /** Milliseconds of waiting per promoted level */
+  interval: number;
+  /** Maximum levels a waiter can be promoted (default: unbounded) */
+  maxBoost?: number;
+}
+
+/**
+ * What to do when a waiter arrives at a full queue:
+ * - "reject": shed the new arrival
+ * - "evict-oldest": shed the longest waiter, admit the new arrival
+ * - "evict-nearest-deadline": shed whichever waiter (including the new arrival)
+ *   would time out first; when nobody has a timeout, the new arrival is shed
+ */
+export type OverflowPolicy = "reject" | "evict-oldest" | "evict-nearest-deadline";
+
+/**
+ * Fair queuing across flows (tenants).
+ * Within a priority level, waiters are dispatched by weighted fair share
+ * across flows and stay FIFO within each flow.
+ */
+export interface FairnessOptions<C> {
+  /** Flow key of a waiter, read from its context (default: one shared flow) */
+  flowKey?: (context: C) => string | undefined;
+  /** Relative share of a flow (default: 1 each, i.e. round-robin) */
+  share?: (flow: string) => number;
+}
+
+/**
+ * Queue discipline:
+ * - "fifo": longest waiter first, waiters leave only by timeout/abort
+ * - "adaptive-lifo": FIFO until the queue is congested (see CoDelOptions),
+ *   then newest waiter first, shedding waiters older than the target
+ */
+export type QueueDiscipline = "fifo" | "adaptive-lifo";
+
+/**
+ * CoDel thresholds. The queue's sojourn time is how long its oldest waiter
+ * has been queued; the queue is congested once that minimum delay stayed
+ * above `target` for a whole `interval`, and remains so until it empties.
+ */
+export interface CoDelOptions {
+  /** Queueing delay (ms) tolerated; older waiters are shed while congested (default: 5) */
+  target?: number;
+  /** How long the sojourn time must stay above target (default: 100) */
+  interval?: number;
+}
+
+export interface AsyncGateOptions<C> {
+  concurrency: number;
+  store?: AsyncLocalStorage<C>;
+  aging?: AgingOptions;
+  /** Maximum number of queued waiters (default: unbounded) */
+  maxQueueLength?: number;
+  /** Overflow policy once maxQueueLength is reached (default: "reject") */
+  overflow?: OverflowPolicy;
+  /** Dispatch order under overload (default: "fifo") */
+  discipline?: QueueDiscipline;
+  /** Congestion thresholds for "adaptive-lifo" */
+  codel?: CoDelOptions;
+  /** Adjust concurrency from run() latency; `concurrency` is the starting limit */
+  adaptive?: AdaptiveLimitOptions;
+  /** Called synchronously for every queue decision */
+  onEvent?: (event: GateEvent) => void;
+  /** Force-reclaim permits held longer than this many ms (default: never) */
+  leaseTimeout?: number;
+  /** Reclaim and report permits whose release function was garbage-collected */
+  detectLeaks?: boolean;
+  /** Leak reporter (default: process warning "AsyncGateLeakWarning") */
+  onLeak?: (report: LeakReport) => void;
+  /** Read the absolute deadline (epoch ms) carried by the active context */
+  getDeadline?: (context: C) => number | undefined;
+  /** Write a tighter deadline into the context run() executes fn in */
+  setDeadline?: (context: C, deadline: number) => C;
+  /** Reject when less than this many ms would be left once acquired (default: 0) */
+  minBudget?: number;
+  /** Share the queue fairly across flows instead of plain FIFO */
+  fairness?: FairnessOptions<C>;
+}
+
+export interface LeakReport {
+  /** "lease-expired": leaseTimeout elapsed; "collected": release fn was GC'd */
+  reason: "lease-expired" | "collected";
+  /** Units reclaimed for the gate */
+  units: number;
+  /** How long the permit was held, in ms */
+  heldMs: number;
+  /** Stack trace of the acquire() call */
+  stack: string | undefined;
+}
+
+/**
+ * Queue decision outcome:
+ * - "queued": no slot free, waiter entered the queue
+ * - "acquired": permit granted (waitMs 0 on the fast path)
+ * - "timeout" / "aborted" / "shed" / "closed": waiter rejected, see the error types
+ *   ("timeout" also covers DeadlineExceededError)
+ * - "rejected": waiter can no longer fit after a resize
+ */
+export type GateOutcome =
+  | "queued"
+  | "acquired"
+  | "timeout"
+  | "aborted"
+  | "shed"
+  | "closed"
+  | "rejected";
+
+export interface GateEvent {
+  outcome: GateOutcome;
+  /** Time spent in the queue so far, in ms */
+  waitMs: number;
+  /** Queue depth right after the decision */
+  queueLength: number;
+  priority: number;
+  weight: number;
+}
+
+export interface GateStats {
+  /** Current limit (moves over time in adaptive mode) */
+  concurrency: number;
+  /** Units held by in-flight permits */
+  running: number;
+  /** Waiters in the queue */
+  queued: number;
+  closed: boolean;
+  /** Queueing delay of granted permits, fast path included */
+  waitTime: HistogramSnapshot;
+  /** Execution time of run() tasks, queueing excluded */
+  runTime: HistogramSnapshot;
+  /** Active flows (with queued or held permits), when fairness is enabled */
+  flows?: Record<string, FlowStats>;
+}
+
+export interface FlowStats {
+  /** Waiters of this flow in the queue */
+  queued: number;
+  /** Units held by this flow's permits */
+  running: number;
+  /** Queueing delay of this flow's granted permits since it became active */
+  waitTime: HistogramSnapshot;
 }
 
 export class TimeoutError extends Error {
@@ -22,6 +203,28 @@ export class TimeoutError extends Error {
   }
 }
 
+export class DeadlineExceededError extends Error {
+  /** The deadline that could not be met (epoch ms) */
+  readonly deadline: number;
+
+  constructor(deadline: number) {
+    super(`Deadline ${new Date(deadline).toISOString()} exceeded`);
+    this.name = "DeadlineExceededError";
+    this.deadline = deadline;
+  }
+}
+
+export class OverloadError extends Error {
+  /** How long the waiter had been queued when it was shed */
+  readonly sojournMs: number;
+
+  constructor(sojournMs: number) {
+    super(`Gate overloaded: shed after ${sojournMs}ms in queue`);
+    this.name = "OverloadError";
+    this.sojournMs = sojournMs;
+  }
+}
+
 export class AbortError extends Error {
   constructor() {
     super("Gate acquisition aborted");
@@ -29,12 +232,88 @@ export class AbortError extends Error {
   }
 }
 
+export class GateClosedError extends Error {
+  constructor() {
+    super("Gate is closed");
+    this.name = "GateClosedError";
+  }
+}
+
+export class QueueFullError extends Error {
+  /** Queue depth at the moment the waiter was shed */
+  readonly queueLength: number;
+
+  constructor(queueLength: number) {
+    super(`Gate queue is full (${queueLength} waiting)`);
+    this.name = "QueueFullError";
+    this.queueLength = queueLength;
+  }
+}
+
+/** setTimeout() fires immediately for delays above 2^31 - 1 ms */
+const MAX_TIMER_DELAY = 2 ** 31 - 1;
+
 interface WaitNode {
-  resolve: (release: ReleaseFunction) => void;
+  resolve: (permit: Permit) => void;
   reject: (error: Error) => void;
   prev: WaitNode | null;
   next: WaitNode | null;
   settled: boolean;
+  weight: number;
+  lane: Lane;
+  /** Enqueue order - tie-breaker between lanes of equal effective priority */
+  seq: number;
+  enqueuedAt: number;
+  /** When the wait expires - timeout or deadline (Infinity when neither) */
+  deadline: number;
+  /** acquire() call site, captured only when leases are tracked */
+  stack: string | undefined;
+}
+
+/** Release bookkeeping - must never reference the release function itself */
+interface PermitState {
+  held: number;
+  acquiredAt: number;
+  stack: string | undefined;
+  reclaimed: boolean;
+  leaseTimer: ReturnType<typeof setTimeout> | undefined;
+  flow: Flow;
+}
+
+/** One intrusive FIFO list per priority level and flow */
+interface Lane {
+  priority: number;
+  flow: Flow;
+  head: WaitNode | null;
+  tail: WaitNode | null;
+}
+
+/** Fair-queuing state of one flow, forgotten once it has nothing queued or held */
+interface Flow {
+  key: string;
+  share: number;
+  /** Virtual finish time: service received so far, divided by share */
+  vtime: number;
+  queued: number;
+  running: number;
+  waitTime: Histogram;
+}
+
+/** Flow of every waiter when fairness is off */
+const DEFAULT_FLOW = "";
+
+export interface BatchOptions {
+  /** Maximum items per batch */
+  size: number;
+  /** Maximum ms to wait for more items once a batch has its first item */
+  maxWait?: number;
+}
+
+export interface MapOptions extends Pick<AcquireOptions, "priority" | "weight"> {
+  /** Yield results in source order (default: true) or completion order */
+  ordered?: boolean;
+  /** Abort the whole map; the consumer sees AbortError */
+  signal?: AbortSignal;
 }
 
 /**
@@ -49,37 +328,152 @@ export interface ContextualItem<T, C> {
 }
 
 export class AsyncGate<C = unknown> {
-  private readonly concurrency: number;
+  private concurrency: number;
+  /** Units of concurrency currently held (sum of permit weights) */
   private running = 0;
-  private head: WaitNode | null = null;
-  private tail: WaitNode | null = null;
+  /** Non-empty lanes, sorted by priority (highest first) */
+  private lanes: Lane[] = [];
+  private seq = 0;
+  private queued = 0;
+  private _closed = false;
+  private drainWaiters: Array<() => void> = [];
+  /** Signals handed to in-flight run() calls - close() aborts them */
+  private readonly inflight = new Set<AbortController>();
   private readonly store: AsyncLocalStorage<C> | null;
+  private readonly aging: AgingOptions | null;
+  private readonly maxQueueLength: number;
+  private readonly overflow: OverflowPolicy;
+  private readonly discipline: QueueDiscipline;
+  private readonly codelTarget: number;
+  private readonly codelInterval: number;
+  /** When the queue's sojourn time rose above the CoDel target (0: not above) */
+  private aboveTargetSince = 0;
+  /** Latched by congested(); cleared when the queue empties */
+  private isCongested = false;
+  private readonly adaptive: AdaptiveLimit | null;
+  private readonly onEvent: ((event: GateEvent) => void) | null;
+  private readonly waitTime = new Histogram();
+  private readonly runTime = new Histogram();
+  private readonly leaseTimeout: number;
+  private readonly leaks: FinalizationRegistry<PermitState> | null;
+  private readonly onLeak: (report: LeakReport) => void;
+  private readonly getDeadline: ((context: C) => number | undefined) | null;
+  private readonly setDeadline: ((context: C, deadline: number) => C) | null;
+  private readonly minBudget: number;
+  private readonly fairness: FairnessOptions<C> | null;
+  private readonly flows = new Map<string, Flow>();
+  /** Start tag of the latest grant - newly active flows begin here */
+  private virtualTime = 0;
 
-  constructor(options: { concurrency: number; store?: AsyncLocalStorage<C> }) {
+  constructor(options: AsyncGateOptions<C>) {
     if (options.concurrency <= 0) throw new Error("Concurrency must be > 0");
+    if (options.aging && options.aging.interval <= 0) {
+      throw new Error("Aging interval must be > 0");
+    }
+    if (options.maxQueueLength !== undefined && options.maxQueueLength < 0) {
+      throw new Error("maxQueueLength must be >= 0");
+    }
     this.concurrency = options.concurrency;
     this.store = options.store ?? null;
+    this.aging = options.aging ?? null;
+    this.maxQueueLength = options.maxQueueLength ?? Infinity;
+    this.overflow = options.overflow ?? "reject";
+    this.discipline = options.discipline ?? "fifo";
+    this.codelTarget = options.codel?.target ?? 5;
+    this.codelInterval = options.codel?.interval ?? 100;
+    if (this.codelTarget <= 0 || this.codelInterval <= 0) {
+      throw new Error("CoDel target and interval must be > 0");
+    }
+    this.adaptive = options.adaptive ? new AdaptiveLimit(options.adaptive) : null;
+    if (this.adaptive) this.concurrency = this.adaptive.clamp(this.concurrency);
+    this.onEvent = options.onEvent ?? null;
+    this.leaseTimeout = options.leaseTimeout ?? Infinity;
+    if (this.leaseTimeout <= 0) throw new Error("leaseTimeout must be > 0");
+    this.leaks = options.detectLeaks
+      ? new FinalizationRegistry((permit) => this.reclaim(permit, "collected"))
+      : null;
+    this.onLeak = options.onLeak ?? warnLeak;
+    this.getDeadline = options.getDeadline ?? null;
+    this.setDeadline = options.setDeadline ?? null;
+    this.minBudget = options.minBudget ?? 0;
+    if (this.minBudget < 0) throw new Error("minBudget must be >= 0");
+    this.fairness = options.fairness ?? null;
   }
 
   /**
    * Acquire a slot from the gate.
    * Does NOT capture context - use run() for context-aware execution.
+   * The active context is only read for its deadline (see getDeadline).
    */
-  async acquire(options: AcquireOptions = {}): Promise<ReleaseFunction> {
-    const { timeout, signal } = options;
-    if (signal?.aborted) throw new AbortError();
-    if (this.running < this.concurrency) {
-      this.running++;
-      return this.createRelease();
+  async acquire(options: AcquireOptions = {}): Promise<Permit> {
+    const { timeout, signal, priority = 0, weight = 1 } = options;
+    // Adaptive limits move: weights are bounded by the ceiling, not the current limit
+    const maxWeight = this.adaptive ? this.adaptive.maxLimit : this.concurrency;
+    if (!Number.isInteger(weight) || weight <= 0 || weight > maxWeight) {
+      throw new Error(`Weight must be an integer in 1..${maxWeight}`);
+    }
+    if (this._closed) {
+      this.emit("closed", 0, priority, weight);
+      throw new GateClosedError();
+    }
+    if (signal?.aborted) {
+      this.emit("aborted", 0, priority, weight);
+      throw new AbortError();
+    }
+
+    // Past this point the holder would have less than minBudget left
+    const budget = this.deadlineFor(options.deadline);
+    const cutoff = budget - this.minBudget;
+    if (Date.now() >= cutoff) {
+      this.emit("timeout", 0, priority, weight);
+      throw new DeadlineExceededError(budget);
+    }
+
+    const stack = this.tracksLeases()
+      ? new Error("Permit acquired").stack
+      : undefined;
+    let flow = this.flowFor(options.flow);
+
+    // Fast path only when nobody is waiting - a heavy head must not be overtaken
+    if (this.lanes.length === 0 && this.running + weight <= this.concurrency) {
+      this.grant(flow, weight);
+      this.waitTime.record(0);
+      flow.waitTime.record(0);
+      this.emit("acquired", 0, priority, weight);
+      return this.createRelease(weight, stack, flow);
+    }
+
+    const enqueuedAt = Date.now();
+    const timeoutAt =
+      timeout !== undefined && timeout > 0 ? enqueuedAt + timeout : Infinity;
+    const deadline = Math.min(timeoutAt, cutoff);
+
+    // Bounded queue: shed someone before growing past the limit
+    if (this.queued >= this.maxQueueLength) {
+      const victim = this.selectVictim(deadline);
+      if (!victim) {
+        this.forgetIfIdle(flow);
+        this.emit("shed", 0, priority, weight);
+        throw new QueueFullError(this.queued);
+      }
+      victim.reject(new QueueFullError(this.queued));
+      // The victim may have been its flow's last waiter: the flow is forgotten
+      if (this.flows.get(flow.key) !== flow) flow = this.flowFor(options.flow);
     }
 
-    return new Promise<ReleaseFunction>((resolve, reject) => {
+    return new Promise<Permit>((resolve, reject) => {
       const node: WaitNode = {
         resolve,
         reject,
         prev: null,
         next: null,
         settled: false,
+        weight,
+        lane: this.laneFor(priority, flow),
+        seq: this.seq++,
+        enqueuedAt,
+        deadline,
+        stack,
       };
       this.enqueue(node);
 
@@ -90,53 +484,177 @@ export class AsyncGate<C = unknown> {
         if (timeoutId) clearTimeout(timeoutId);
       };
       const onAbort = () => {
-        if (node.settled) return;
-        node.settled = true;
-        cleanup();
-        reject(new AbortError());
+        node.reject(new AbortError());
+        this.dispatch(); // A departed head may have been blocking lighter waiters
       };
       signal?.addEventListener("abort", onAbort, { once: true });
 
-      if (timeout !== undefined && timeout > 0) {
+      // Delays past the timer range would fire at once; such waits never expire
+      if (deadline - enqueuedAt <= MAX_TIMER_DELAY) {
         timeoutId = setTimeout(() => {
-          if (node.settled) return;
-          node.settled = true;
-          cleanup();
-          reject(new TimeoutError());
-        }, timeout);
+          node.reject(
+            deadline === timeoutAt
+              ? new TimeoutError()
+              : new DeadlineExceededError(budget)
+          );
+          this.dispatch();
+        }, deadline - enqueuedAt);
       }
+      node.reject = (error) => {
+        if (node.settled) return;
+        node.settled = true;
+        cleanup();
+        this.emit(outcomeOf(error), Date.now() - enqueuedAt, priority, weight);
+        reject(error);
+      };
       const originalResolve = node.resolve;
-      node.resolve = (release) => {
+      node.resolve = (permit) => {
         if (node.settled) return;
         node.settled = true;
         if (timeoutId) clearTimeout(timeoutId);
         signal?.removeEventListener("abort", onAbort);
-        originalResolve(release);
+        const waitMs = Date.now() - enqueuedAt;
+        this.waitTime.record(waitMs);
+        flow.waitTime.record(waitMs);
+        this.emit("acquired", waitMs, priority, weight);
+        originalResolve(permit);
       };
+      this.emit("queued", 0, priority, weight);
+
+      // A higher-priority arrival may fit even while the queue is non-empty
+      this.dispatch();
     });
   }
 
+  /**
+   * Resize the gate at runtime.
+   *
+   * Growing dispatches queued waiters immediately, in the usual order.
+   * Shrinking never revokes held permits: in-flight holders finish naturally
+   * and nobody is admitted until `running` drops below the new limit.
+   * Queued waiters heavier than the new limit could never fit and are rejected.
+   * (Adaptive shrinks do not go through here: they keep heavy waiters queued.)
+   */
+  setConcurrency(concurrency: number): void {
+    if (concurrency <= 0) throw new Error("Concurrency must be > 0");
+    this.concurrency = concurrency;
+
+    const oversized: WaitNode[] = [];
+    for (const lane of this.lanes) {
+      for (let node = lane.head; node; node = node.next) {
+        if (node.weight > concurrency) oversized.push(node);
+      }
+    }
+    for (const node of oversized) {
+      node.reject(new Error(`Weight must be an integer in 1..${concurrency}`));
+    }
+
+    this.dispatch();
+  }
+
+  get closed(): boolean {
+    return this._closed;
+  }
+
+  /**
+   * Get current gate statistics.
+   */
+  getStats(): GateStats {
+    return {
+      concurrency: this.concurrency,
+      running: this.running,
+      queued: this.queued,
+      closed: this._closed,
+      waitTime: this.waitTime.snapshot(),
+      runTime: this.runTime.snapshot(),
+      ...(this.fairness && { flows: this.flowStats() }),
+    };
+  }
+
+  /**
+   * Stop accepting work.
+   *
+   * Queued waiters and every later acquire() reject with GateClosedError.
+   * Permits already held are NOT revoked - use drain() to wait for them -
+   * but in-flight run() signals abort so cooperative work can wind down.
+   */
+  close(): void {
+    if (this._closed) return;
+    this._closed = true;
+
+    const queued: WaitNode[] = [];
+    for (const lane of this.lanes) {
+      for (let node = lane.head; node; node = node.next) queued.push(node);
+    }
+    for (const node of queued) node.reject(new GateClosedError());
+    for (const controller of this.inflight) controller.abort(new GateClosedError());
+    this.inflight.clear();
+    this.settleDrain();
+  }
+
+  /**
+   * Resolve once no permit is held and nobody is waiting.
+   * Does not close the gate - call close() first for a graceful shutdown.
+   */
+  drain(): Promise<void> {
+    if (this.isIdle()) return Promise.resolve();
+    return new Promise((resolve) => this.drainWaiters.push(resolve));
+  }
+
   /**
    * Execute function with automatic slot management AND context propagation.
    *
    * Context is captured BEFORE acquire (at schedule-time).
    * Context is restored BEFORE fn execution (at execution-time).
+   *
+   * fn receives a signal that aborts when options.signal aborts (with its
+   * reason) or when the gate closes (GateClosedError). The permit is held
+   * until fn settles either way.
+   *
+   * An explicit deadline tighter than the context's is written into the
+   * restored context (see setDeadline), so nested calls inherit it.
    */
-  async run<T>(fn: () => Promise<T>, options: AcquireOptions = {}): Promise<T> {
+  async run<T>(
+    fn: (signal: AbortSignal) => Promise<T>,
+    options: AcquireOptions = {}
+  ): Promise<T> {
     // STEP 1: Capture context at schedule-time (before any wait)
-    const capturedContext = this.store?.getStore();
+    const capturedContext = this.withDeadline(
+      this.store?.getStore(),
+      this.deadlineFor(options.deadline)
+    );
 
     // STEP 2: Acquire slot (may queue and wait)
     const release = await this.acquire(options);
+    const startedAt = performance.now();
+    let failed = false;
+
+    const { signal } = options;
+    const controller = new AbortController();
+    const onAbort = () => controller.abort(signal!.reason);
+    if (signal?.aborted) onAbort();
+    else signal?.addEventListener("abort", onAbort, { once: true });
+    if (!this._closed) this.inflight.add(controller);
+    else controller.abort(new GateClosedError());
+    const exec = () => fn(controller.signal);
 
     try {
       // STEP 3: Restore context and execute
       if (this.store && capturedContext !== undefined) {
-        return await this.store.run(capturedContext, fn);
+        return await this.store.run(capturedContext, exec);
       }
-      return await fn();
+      return await exec();
+    } catch (error) {
+      failed = true;
+      throw error;
     } finally {
+      signal?.removeEventListener("abort", onAbort);
+      this.inflight.delete(controller);
+      const inflight = this.running;
       release();
+      const latency = performance.now() - startedAt;
+      this.runTime.record(latency);
+      if (this.adaptive) this.adapt({ latency, failed, inflight });
     }
   }
 
@@ -173,7 +691,17 @@ export class AsyncGate<C = unknown> {
         const capturedContext = store?.getStore();
 
         // STEP 2: Acquire slot (may queue)
-        const release = await gate.acquire();
+        let release: ReleaseFunction;
+        try {
+          release = await gate.acquire();
+        } catch (e) {
+          // Closed gate ends the stream: clean up the source, surface the error
+          if (e instanceof GateClosedError) {
+            done = true;
+            await iter.return?.();
+          }
+          throw e;
+        }
 
         try {
           const result = await iter.next();
@@ -187,18 +715,10 @@ export class AsyncGate<C = unknown> {
           pendingRelease = release;
 
           // STEP 3: Create contextual item with runner
-          const contextualItem: ContextualItem<T, C> = {
-            item: result.value,
-            context: capturedContext,
-            run: async <R>(fn: () => R | Promise<R>): Promise<R> => {
-              if (store && capturedContext !== undefined) {
-                return store.run(capturedContext, fn);
-              }
-              return fn() as Promise<R>;
-            },
+          return {
+            done: false,
+            value: contextualize(result.value, store, capturedContext),
           };
-
-          return { done: false, value: contextualItem };
         } catch (e) {
           release();
           throw e;
@@ -225,50 +745,708 @@ export class AsyncGate<C = unknown> {
     };
   }
 
-  private createRelease(): ReleaseFunction {
-    let released = false;
-    return () => {
-      if (released) throw new Error("Release called twice");
-      released = true;
-      this.running--;
-      this.dispatch();
+  /**
+   * Batching variant of wrap(): yields arrays of up to `size` items.
+   *
+   * A batch is emitted when it is full, when `maxWait` ms passed since its
+   * first item, or when the source ends - whichever comes first.
+   *
+   * - One slot per batch, same Next-Triggers-Previous-Release rule as wrap()
+   * - Each item keeps the context captured at the next() that pulled it
+   * - A pull still pending at the time cut carries over to the next batch,
+   *   so the source never sees parallel next() calls
+   */
+  wrapBatches<T>(
+    source: AsyncIterable<T>,
+    options: BatchOptions
+  ): AsyncIterableIterator<ContextualItem<T, C>[]> {
+    const { size, maxWait = Infinity } = options;
+    if (!Number.isInteger(size) || size < 1) {
+      throw new Error("Batch size must be an integer >= 1");
+    }
+    const gate = this;
+    const store = this.store;
+    const iter = source[Symbol.asyncIterator]();
+    let pendingRelease: ReleaseFunction | null = null;
+    let pendingPull: Promise<IteratorResult<T>> | null = null;
+    let done = false;
+
+    const releasePending = () => {
+      if (pendingRelease) {
+        pendingRelease();
+        pendingRelease = null;
+      }
+    };
+
+    const pull = () => {
+      const next = pendingPull ?? iter.next();
+      pendingPull = null;
+      return next;
+    };
+
+    return {
+      async next(): Promise<IteratorResult<ContextualItem<T, C>[]>> {
+        releasePending();
+        if (done) return { done: true, value: undefined };
+
+        const capturedContext = store?.getStore();
+
+        let release: ReleaseFunction;
+        try {
+          release = await gate.acquire();
+        } catch (e) {
+          if (e instanceof GateClosedError) {
+            done = true;
+            await iter.return?.();
+          }
+          throw e;
+        }
+
+        const batch: ContextualItem<T, C>[] = [];
+        let timer: ReturnType<typeof setTimeout> | undefined;
+        let expired: Promise<null> | null = null;
+
+        try {
+          while (batch.length < size) {
+            const next = pull();
+            let result: IteratorResult<T> | null;
+
+            if (expired) {
+              result = await Promise.race([next, expired]);
+              if (result === null) {
+                // Time cut: keep the in-flight pull for the next batch
+                next.catch(() => {}); // rejection is re-observed there
+                pendingPull = next;
+                break;
+              }
+            } else {
+              result = await next;
+            }
+
+            if (result.done) {
+              done = true;
+              break;
+            }
+            batch.push(contextualize(result.value, store, capturedContext));
+
+            // The wait window opens with the first item of the batch
+            if (batch.length === 1 && maxWait !== Infinity) {
+              expired = new Promise((resolve) => {
+                timer = setTimeout(() => resolve(null), maxWait);
+              });
+            }
+          }
+        } catch (e) {
+          release();
+          throw e;
+        } finally {
+          clearTimeout(timer);
+        }
+
+        if (batch.length === 0) {
+          release();
+          return { done: true, value: undefined };
+        }
+        pendingRelease = release;
+        return { done: false, value: batch };
+      },
+
+      async return(value?: unknown): Promise<IteratorResult<ContextualItem<T, C>[]>> {
+        releasePending();
+        done = true;
+        await iter.return?.(value);
+        return { done: true, value: undefined };
+      },
+
+      async throw(error?: unknown): Promise<IteratorResult<ContextualItem<T, C>[]>> {
+        releasePending();
+        done = true;
+        if (iter.throw) await iter.throw(error);
+        throw error;
+      },
+
+      [Symbol.asyncIterator]() {
+        return this;
+      },
+    };
+  }
+
+  /**
+   * Map an async iterable through fn with up to `concurrency` items in flight.
+   *
+   * DESIGN DECISIONS:
+   * - One gate slot per item, held from source pull until its result is
+   *   delivered to the consumer - buffered results count against the limit,
+   *   so a slow consumer stops the source (backpressure)
+   * - Source pulls are serialized: the source never sees parallel next()
+   * - Context captured once at map() call, restored around every fn
+   * - Fail-fast: the first error from fn or the source is thrown from the
+   *   next next(), remaining work is discarded and the source is return()ed
+   */
+  map<T, R>(
+    source: AsyncIterable<T>,
+    fn: (item: T, index: number) => Promise<R>,
+    options: MapOptions = {}
+  ): AsyncIterableIterator<R> {
+    const { ordered = true, signal, priority, weight } = options;
+    const gate = this;
+    const store = this.store;
+    const capturedContext = store?.getStore();
+    const iter = source[Symbol.asyncIterator]();
+    const stop = new AbortController();
+
+    /** Completed, undelivered results - Map order is completion order */
+    const ready = new Map<number, { value: R; release: ReleaseFunction }>();
+    let started = false;
+    let sourceDone = false;
+    let finished = false;
+    let failure: { error: unknown } | null = null;
+    let failureThrown = false;
+    let inflight = 0;
+    let pulled = 0;
+    let delivered = 0;
+    let wake: (() => void) | null = null;
+
+    const notify = () => {
+      wake?.();
+      wake = null;
+    };
+
+    const finish = async () => {
+      if (finished) return;
+      finished = true;
+      stop.abort();
+      signal?.removeEventListener("abort", onAbort);
+      for (const { release } of ready.values()) release();
+      ready.clear();
+      notify();
+      await iter.return?.();
+    };
+
+    const fail = (error: unknown) => {
+      if (failure || finished) return;
+      failure = { error };
+      finish().catch(() => {}); // Source cleanup errors lose to the original
+    };
+
+    const onAbort = () => fail(new AbortError());
+    signal?.addEventListener("abort", onAbort, { once: true });
+
+    const launch = (item: T, index: number, release: ReleaseFunction) => {
+      inflight++;
+      const exec = () => fn(item, index);
+      new Promise<R>((resolve) =>
+        resolve(
+          store && capturedContext !== undefined
+            ? store.run(capturedContext, exec)
+            : exec()
+        )
+      ).then(
+        (value) => {
+          inflight--;
+          if (finished) release();
+          else ready.set(index, { value, release });
+          notify();
+        },
+        (error) => {
+          inflight--;
+          release();
+          fail(error);
+          notify();
+        }
+      );
+    };
+
+    const produce = async () => {
+      while (!finished && !sourceDone) {
+        let release: ReleaseFunction;
+        try {
+          release = await gate.acquire({ priority, weight, signal: stop.signal });
+        } catch (e) {
+          if (!stop.signal.aborted) fail(e);
+          return;
+        }
+
+        let result: IteratorResult<T>;
+        try {
+          if (finished) throw stop.signal.reason;
+          result = await iter.next();
+        } catch (e) {
+          release();
+          fail(e);
+          return;
+        }
+
+        if (result.done || finished) {
+          release();
+          sourceDone = true;
+          notify();
+          return;
+        }
+        launch(result.value, pulled++, release);
+      }
+    };
+
+    return {
+      async next(): Promise<IteratorResult<R>> {
+        if (!started) {
+          started = true;
+          if (signal?.aborted) onAbort();
+          else produce().catch(fail);
+        }
+
+        while (true) {
+          if (failure && !failureThrown) {
+            failureThrown = true;
+            throw failure.error;
+          }
+
+          const key = ordered ? delivered : ready.keys().next().value;
+          const entry = key === undefined ? undefined : ready.get(key);
+          if (entry) {
+            ready.delete(key!);
+            delivered++;
+            entry.release();
+            return { done: false, value: entry.value };
+          }
+
+          if (finished || (sourceDone && inflight === 0)) {
+            await finish();
+            return { done: true, value: undefined };
+          }
+          await new Promise<void>((resolve) => (wake = resolve));
+        }
+      },
+
+      async return(): Promise<IteratorResult<R>> {
+        await finish();
+        return { done: true, value: undefined };
+      },
+
+      async throw(error?: unknown): Promise<IteratorResult<R>> {
+        await finish();
+        throw error;
+      },
+
+      [Symbol.asyncIterator]() {
+        return this;
+      },
+    };
+  }
+
+  private emit(
+    outcome: GateOutcome,
+    waitMs: number,
+    priority: number,
+    weight: number
+  ): void {
+    if (!this.onEvent) return;
+    const event: GateEvent = {
+      outcome,
+      waitMs,
+      queueLength: this.queued,
+      priority,
+      weight,
+    };
+    try {
+      this.onEvent(event);
+    } catch (error) {
+      // A broken observer must not corrupt gate state - surface it out of band
+      queueMicrotask(() => {
+        throw error;
+      });
+    }
+  }
+
+  private adapt(sample: LatencySample): void {
+    const limit = this.adaptive!.update(this.concurrency, sample);
+    if (limit === this.concurrency) return;
+    // Temporary shrink: waiters heavier than the limit stay queued (see dispatch)
+    this.concurrency = limit;
+    this.dispatch();
+  }
+
+  private createRelease(
+    weight: number,
+    stack: string | undefined,
+    flow: Flow
+  ): Permit {
+    const permit: PermitState = {
+      held: weight,
+      acquiredAt: Date.now(),
+      stack,
+      reclaimed: false,
+      leaseTimer: undefined,
+      flow,
+    };
+
+    const release: ReleaseFunction = (units = permit.held) => {
+      // Already force-reclaimed: the late release is harmless, not a bug
+      if (permit.reclaimed) return;
+      if (permit.held === 0) throw new Error("Release called twice");
+      if (!Number.isInteger(units) || units <= 0 || units > permit.held) {
+        throw new Error(`Cannot release ${units} units, ${permit.held} held`);
+      }
+      permit.held -= units;
+      if (permit.held === 0) this.closeLease(permit);
+      this.returnUnits(units, permit.flow);
+    };
+
+    if (this.leaseTimeout !== Infinity) {
+      permit.leaseTimer = setTimeout(
+        () => this.reclaim(permit, "lease-expired"),
+        this.leaseTimeout
+      );
+      permit.leaseTimer.unref?.();
+    }
+    const dispose = () => {
+      if (!permit.reclaimed && permit.held > 0) release();
     };
+    this.leaks?.register(release, permit, permit);
+    return Object.assign(release, {
+      [Symbol.dispose]: dispose,
+      [Symbol.asyncDispose]: async () => dispose(),
+    });
+  }
+
+  /** Tighter of the explicit and the context deadline (Infinity when neither) */
+  private deadlineFor(explicit: number | undefined): number {
+    const context = this.store?.getStore();
+    const inherited =
+      this.getDeadline && context !== undefined
+        ? this.getDeadline(context)
+        : undefined;
+    return Math.min(explicit ?? Infinity, inherited ?? Infinity);
+  }
+
+  /** The context with `deadline` written in, if tighter than its own */
+  private withDeadline(context: C | undefined, deadline: number): C | undefined {
+    if (context === undefined || !this.setDeadline || deadline === Infinity) {
+      return context;
+    }
+    const own = this.getDeadline?.(context) ?? Infinity;
+    return deadline < own ? this.setDeadline(context, deadline) : context;
+  }
+
+  private flowFor(explicit: string | undefined): Flow {
+    let key = DEFAULT_FLOW;
+    if (this.fairness) {
+      const context = this.store?.getStore();
+      key =
+        explicit ??
+        (this.fairness.flowKey && context !== undefined
+          ? this.fairness.flowKey(context)
+          : undefined) ??
+        DEFAULT_FLOW;
+    }
+
+    let flow = this.flows.get(key);
+    if (!flow) {
+      const share = this.fairness?.share?.(key) ?? 1;
+      if (!(share > 0)) throw new Error(`Share of flow "${key}" must be > 0`);
+      flow = {
+        key,
+        share,
+        vtime: this.virtualTime,
+        queued: 0,
+        running: 0,
+        waitTime: new Histogram(),
+      };
+      this.flows.set(key, flow);
+    }
+    return flow;
   }
 
+  /** Account a grant: the flow pays weight/share of virtual time. */
+  private grant(flow: Flow, weight: number): void {
+    this.running += weight;
+    flow.running += weight;
+    const start = Math.max(flow.vtime, this.virtualTime);
+    this.virtualTime = start;
+    flow.vtime = start + weight / flow.share;
+  }
+
+  private forgetIfIdle(flow: Flow): void {
+    if (flow.queued === 0 && flow.running === 0) this.flows.delete(flow.key);
+  }
+
+  private flowStats(): Record<string, FlowStats> {
+    const stats: Record<string, FlowStats> = {};
+    for (const flow of this.flows.values()) {
+      stats[flow.key] = {
+        queued: flow.queued,
+        running: flow.running,
+        waitTime: flow.waitTime.snapshot(),
+      };
+    }
+    return stats;
+  }
+
+  private tracksLeases(): boolean {
+    return this.leaseTimeout !== Infinity || this.leaks !== null;
+  }
+
+  private closeLease(permit: PermitState): void {
+    if (permit.leaseTimer) clearTimeout(permit.leaseTimer);
+    this.leaks?.unregister(permit);
+  }
+
+  /** Take back units the holder can no longer (or did not) return. */
+  private reclaim(permit: PermitState, reason: LeakReport["reason"]): void {
+    if (permit.reclaimed || permit.held === 0) return;
+    const units = permit.held;
+    permit.reclaimed = true;
+    permit.held = 0;
+    this.closeLease(permit);
+    this.returnUnits(units, permit.flow);
+    this.onLeak({
+      reason,
+      units,
+      heldMs: Date.now() - permit.acquiredAt,
+      stack: permit.stack,
+    });
+  }
+
+  private returnUnits(units: number, flow: Flow): void {
+    this.running -= units;
+    flow.running -= units;
+    this.forgetIfIdle(flow);
+    this.dispatch();
+    this.settleDrain();
+  }
+
+  private isIdle(): boolean {
+    return this.running === 0 && this.lanes.length === 0;
+  }
+
+  private settleDrain(): void {
+    if (!this.isIdle() || this.drainWaiters.length === 0) return;
+    const waiters = this.drainWaiters;
+    this.drainWaiters = [];
+    for (const resolve of waiters) resolve();
+  }
+
+  /**
+   * Hand out permits while the selected waiter fits.
+   * Stops at the first waiter that does not fit - lighter waiters behind it
+   * are never dispatched ahead of it, so heavy waiters cannot starve.
+   */
   private dispatch(): void {
-    if (this.running >= this.concurrency || !this.head) return;
-    const node = this.dequeue();
-    if (node) {
-      this.running++;
-      node.resolve(this.createRelease());
+    this.shedStale();
+    let node = this.selectNext();
+    while (node && this.fits(node.weight)) {
+      // Grant before unlinking so the flow never looks idle in between
+      this.grant(node.lane.flow, node.weight);
+      this.unlink(node);
+      node.resolve(this.createRelease(node.weight, node.stack, node.lane.flow));
+      node = this.selectNext();
     }
   }
 
-  private enqueue(node: WaitNode): void {
-    if (!this.tail) {
-      this.head = this.tail = node;
-    } else {
-      node.prev = this.tail;
-      this.tail.next = node;
-      this.tail = node;
+  /**
+   * A waiter heavier than an adaptive limit that shrank under it runs alone:
+   * waiting for the limit to grow back would stall, since only runs move it.
+   */
+  private fits(weight: number): boolean {
+    if (this.running + weight <= this.concurrency) return true;
+    return this.running === 0 && weight > this.concurrency;
+  }
+
+  /**
+   * Pick the lane head with the highest effective priority.
+   * Each lane is FIFO, so its head is also its longest waiter;
+   * ties between lanes go to the flow with the least virtual time,
+   * then to the earlier arrival. While congested under "adaptive-lifo",
+   * lane tails and later arrivals win instead.
+   */
+  private selectNext(): WaitNode | null {
+    const now = Date.now();
+    const lifo = this.congested(now);
+    let best: WaitNode | null = null;
+    let bestRank = -Infinity;
+
+    for (const lane of this.lanes) {
+      // Without aging, lanes are sorted: no lower level can win
+      if (!this.aging && lane.priority < bestRank) break;
+      const node = lifo ? lane.tail! : lane.head!;
+      const rank = this.effectivePriority(node, now);
+      if (rank > bestRank || (rank === bestRank && precedes(node, best!, lifo))) {
+        best = node;
+        bestRank = rank;
+      }
     }
+    return best;
   }
 
-  private dequeue(): WaitNode | null {
-    const node = this.head;
-    if (!node) return null;
-    this.head = node.next;
-    if (!this.head) this.tail = null;
-    else this.head.prev = null;
-    node.next = null;
-    return node;
+  /**
+   * Choose the queued waiter to shed for a new arrival.
+   * Returns null when the new arrival itself should be rejected.
+   */
+  private selectVictim(arrivalDeadline: number): WaitNode | null {
+    if (this.overflow === "reject") return null;
+
+    let victim: WaitNode | null = null;
+    if (this.overflow === "evict-oldest") {
+      for (const lane of this.lanes) {
+        if (!victim || lane.head!.seq < victim.seq) victim = lane.head;
+      }
+      return victim;
+    }
+
+    // evict-nearest-deadline: the arrival is a candidate too
+    let nearest = arrivalDeadline;
+    for (const lane of this.lanes) {
+      for (let node = lane.head; node; node = node.next) {
+        if (node.deadline < nearest) {
+          victim = node;
+          nearest = node.deadline;
+        }
+      }
+    }
+    return victim;
+  }
+
+  /**
+   * Congested: "adaptive-lifo" and the sojourn time has stayed above the
+   * CoDel target for an interval. Stays congested until the queue empties.
+   */
+  private congested(now: number): boolean {
+    if (this.discipline !== "adaptive-lifo" || this.queued === 0) return false;
+    if (!this.isCongested) {
+      this.sampleSojourn(now);
+      this.isCongested =
+        this.aboveTargetSince !== 0 &&
+        now - this.aboveTargetSince >= this.codelInterval;
+    }
+    return this.isCongested;
+  }
+
+  /**
+   * Track when the sojourn time rose above target. The oldest waiter's
+   * delay only grows until it leaves, so sampling on every departure and
+   * check yields the exact crossing time.
+   */
+  private sampleSojourn(now: number): void {
+    let oldest = Infinity;
+    for (const lane of this.lanes) oldest = Math.min(oldest, lane.head!.enqueuedAt);
+    if (now - oldest < this.codelTarget) this.aboveTargetSince = 0;
+    else if (this.aboveTargetSince === 0) this.aboveTargetSince = oldest + this.codelTarget;
+  }
+
+  /** While congested, shed every waiter queued longer than the CoDel target. */
+  private shedStale(): void {
+    const now = Date.now();
+    if (!this.congested(now)) return;
+    const cutoff = now - this.codelTarget;
+    const stale: WaitNode[] = [];
+    for (const lane of this.lanes) {
+      // Lanes are FIFO: the stale waiters are a prefix
+      for (let node = lane.head; node && node.enqueuedAt < cutoff; node = node.next) {
+        stale.push(node);
+      }
+    }
+    for (const node of stale) node.reject(new OverloadError(now - node.enqueuedAt));
+  }
+
+  private effectivePriority(node: WaitNode, now: number): number {
+    if (!this.aging) return node.lane.priority;
+    const levels = Math.floor((now - node.enqueuedAt) / this.aging.interval);
+    return node.lane.priority + Math.min(levels, this.aging.maxBoost ?? Infinity);
+  }
+
+  private laneFor(priority: number, flow: Flow): Lane {
+    let i = 0;
+    while (i < this.lanes.length && this.lanes[i].priority > priority) i++;
+    for (let j = i; this.lanes[j]?.priority === priority; j++) {
+      if (this.lanes[j].flow === flow) return this.lanes[j];
+    }
+    const lane: Lane = { priority, flow, head: null, tail: null };
+    this.lanes.splice(i, 0, lane);
+    return lane;
+  }
+
+  private enqueue(node: WaitNode): void {
+    const lane = node.lane;
+    this.queued++;
+    // A flow returning from idle must not cash in service it did not use
+    if (lane.flow.queued++ === 0) {
+      lane.flow.vtime = Math.max(lane.flow.vtime, this.virtualTime);
+    }
+    if (!lane.tail) {
+      lane.head = lane.tail = node;
+    } else {
+      node.prev = lane.tail;
+      lane.tail.next = node;
+      lane.tail = node;
+    }
   }
 
   private unlink(node: WaitNode): void {
+    const lane = node.lane;
     if (node.prev) node.prev.next = node.next;
     if (node.next) node.next.prev = node.prev;
-    if (this.head === node) this.head = node.next;
-    if (this.tail === node) this.tail = node.prev;
+    if (lane.head === node) lane.head = node.next;
+    if (lane.tail === node) lane.tail = node.prev;
     node.prev = node.next = null;
+    this.queued--;
+    lane.flow.queued--;
+    this.forgetIfIdle(lane.flow);
+    // Drop empty lanes so selectNext() only scans live heads
+    if (!lane.head) {
+      const i = this.lanes.indexOf(lane);
+      if (i !== -1) this.lanes.splice(i, 1);
+    }
+    if (this.queued === 0) {
+      this.aboveTargetSince = 0;
+      this.isCongested = false;
+    } else if (this.discipline === "adaptive-lifo" && !this.isCongested) {
+      this.sampleSojourn(Date.now()); // The oldest waiter may have changed
+    }
   }
 }
+
+/** Dispatch order between waiters of equal effective priority */
+function precedes(a: WaitNode, b: WaitNode, lifo: boolean): boolean {
+  const fa = a.lane.flow;
+  const fb = b.lane.flow;
+  if (fa !== fb && fa.vtime !== fb.vtime) return fa.vtime < fb.vtime;
+  return lifo ? a.seq > b.seq : a.seq < b.seq;
+}
+
+function outcomeOf(error: Error): GateOutcome {
+  if (error instanceof TimeoutError) return "timeout";
+  if (error instanceof DeadlineExceededError) return "timeout";
+  if (error instanceof AbortError) return "aborted";
+  if (error instanceof QueueFullError) return "shed";
+  if (error instanceof OverloadError) return "shed";
+  if (error instanceof GateClosedError) return "closed";
+  return "rejected";
+}
+
+function warnLeak(report: LeakReport): void {
+  const cause =
+    report.reason === "lease-expired"
+      ? `exceeded its lease after ${report.heldMs}ms`
+      : "garbage-collected without release";
+  process.emitWarning(
+    `AsyncGate permit (${report.units} units) ${cause}, reclaimed.\n${report.stack ?? ""}`,
+    "AsyncGateLeakWarning"
+  );
+}
+
+function contextualize<T, C>(
+  item: T,
+  store: AsyncLocalStorage<C> | null,
+  capturedContext: C | undefined
+): ContextualItem<T, C> {
+  return {
+    item,
+    context: capturedContext,
+    run: async <R>(fn: () => R | Promise<R>): Promise<R> => {
+      if (store && capturedContext !== undefined) {
+        return store.run(capturedContext, fn);
+      }
+      return fn() as Promise<R>;
+    },
+  };
+}
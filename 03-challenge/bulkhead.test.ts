@@ -0,0 +1,213 @@
+import assert from "node:assert/strict";
+import { AsyncLocalStorage } from "node:async_hooks";
+import { describe, test } from "node:test";
+import { GateClosedError, QueueFullError, TimeoutError } from "./async-gate.ts";
+import { Bulkhead, BulkheadRejectedError, type CircuitLike } from "./bulkhead.ts";
+
+// Helper: breaker counting like Day-05 CircuitBreaker - every failure of fn
+function breaker(failureThreshold: number) {
+  let failures = 0;
+  const circuit = {
+    get state() {
+      return failures >= failureThreshold ? ("OPEN" as const) : ("CLOSED" as const);
+    },
+    async run<T>(
+      fn: (signal: AbortSignal) => Promise<T>,
+      options?: { signal?: AbortSignal }
+    ): Promise<T> {
+      if (circuit.state === "OPEN") throw new Error("circuit open");
+      try {
+        return await fn(options?.signal ?? new AbortController().signal);
+      } catch (error) {
+        failures++;
+        throw error;
+      }
+    },
+  } satisfies CircuitLike;
+  return circuit;
+}
+
+// Helper: a task that holds its slot until released
+function hold() {
+  let release!: () => void;
+  const done = new Promise<void>((r) => (release = r));
+  return { task: () => done, release };
+}
+
+describe("Bulkhead", () => {
+  test("a saturated partition does not block the others", async () => {
+    const bulkhead = new Bulkhead({
+      partitions: { payments: { concurrency: 1 }, search: { concurrency: 1 } },
+    });
+    const slow = hold();
+    const payment = bulkhead.run("payments", slow.task);
+
+    assert.equal(await bulkhead.run("search", async () => "found"), "found");
+    slow.release();
+    await payment;
+  });
+
+  test("rejects immediately once the partition is full", async () => {
+    const bulkhead = new Bulkhead({ partitions: { reports: { concurrency: 1 } } });
+    const slow = hold();
+    const running = bulkhead.run("reports", slow.task);
+
+    const started = Date.now();
+    await assert.rejects(
+      () => bulkhead.run("reports", async () => "never", { timeout: 1000 }),
+      (error) => {
+        assert.ok(error instanceof BulkheadRejectedError);
+        assert.ok(error instanceof QueueFullError);
+        assert.equal(error.partition, "reports");
+        return true;
+      }
+    );
+    assert.ok(Date.now() - started < 50, "No waiting for the timeout");
+    assert.equal(bulkhead.getStats().partitions.reports.rejected, 1);
+
+    slow.release();
+    await running;
+  });
+
+  test("maxQueueLength lets a partition queue before rejecting", async () => {
+    const bulkhead = new Bulkhead({
+      partitions: { search: { concurrency: 1, maxQueueLength: 1 } },
+    });
+    const slow = hold();
+    const running = bulkhead.run("search", slow.task);
+    const queued = bulkhead.run("search", async () => "queued");
+
+    await assert.rejects(
+      () => bulkhead.run("search", async () => "never"),
+      BulkheadRejectedError
+    );
+    slow.release();
+    await running;
+    assert.equal(await queued, "queued");
+  });
+
+  test("overflow pool absorbs bursts before rejecting", async () => {
+    const bulkhead = new Bulkhead({
+      partitions: { payments: { concurrency: 1 }, search: { concurrency: 1 } },
+      overflow: { concurrency: 1 },
+    });
+    const first = hold();
+    const second = hold();
+    const running = [
+      bulkhead.run("payments", first.task),
+      bulkhead.run("payments", second.task), // borrows the overflow slot
+    ];
+
+    // search still has its own slot
+    assert.equal(await bulkhead.run("search", async () => "found"), "found");
+    await assert.rejects(
+      () => bulkhead.run("payments", async () => "never"),
+      BulkheadRejectedError
+    );
+
+    const stats = bulkhead.getStats();
+    assert.equal(stats.partitions.payments.borrowed, 1);
+    assert.equal(stats.overflow?.running, 1);
+
+    first.release();
+    second.release();
+    await Promise.all(running);
+    assert.equal(bulkhead.getStats().overflow?.running, 0);
+  });
+
+  test("checks the circuit before taking a slot (fail-before-gate)", async () => {
+    const open: CircuitLike = {
+      state: "OPEN",
+      run: () => Promise.reject(new Error("circuit open")),
+    };
+    const bulkhead = new Bulkhead({
+      partitions: { payments: { concurrency: 1, circuit: open } },
+    });
+    let executed = false;
+
+    await assert.rejects(
+      () =>
+        bulkhead.run("payments", async () => {
+          executed = true;
+        }),
+      /circuit open/
+    );
+    assert.equal(executed, false);
+    const stats = bulkhead.getStats().partitions.payments;
+    assert.equal(stats.running, 0);
+    assert.equal(stats.rejected, 0);
+  });
+
+  test("rejections and queue timeouts do not count as circuit failures", async () => {
+    const circuit = breaker(2);
+    const bulkhead = new Bulkhead({
+      partitions: { payments: { concurrency: 1, maxQueueLength: 1, circuit } },
+    });
+    const slow = hold();
+    const running = bulkhead.run("payments", slow.task);
+
+    await assert.rejects(
+      () => bulkhead.run("payments", async () => {}, { timeout: 10 }),
+      TimeoutError
+    );
+    const queued = bulkhead.run("payments", async () => "queued");
+    for (let i = 0; i < 2; i++) {
+      await assert.rejects(
+        () => bulkhead.run("payments", async () => {}),
+        BulkheadRejectedError
+      );
+    }
+    assert.equal(circuit.state, "CLOSED");
+
+    slow.release();
+    await running;
+    assert.equal(await queued, "queued");
+    const down = () => Promise.reject(new Error("down"));
+    for (let i = 0; i < 2; i++) {
+      await assert.rejects(() => bulkhead.run("payments", down), /down/);
+    }
+    assert.equal(circuit.state, "OPEN", "Failures of fn still count");
+  });
+
+  test("work runs inside the circuit in the caller's context", async () => {
+    const store = new AsyncLocalStorage<string>();
+    const trace: string[] = [];
+    const circuit: CircuitLike = {
+      state: "CLOSED",
+      run: (fn, options) => {
+        trace.push("circuit");
+        return fn(options?.signal ?? new AbortController().signal);
+      },
+    };
+    const bulkhead = new Bulkhead({
+      partitions: { search: { concurrency: 1, circuit } },
+      store,
+    });
+
+    const seen = await store.run("request-1", () =>
+      bulkhead.run("search", async () => {
+        trace.push("work");
+        return store.getStore();
+      })
+    );
+    assert.equal(seen, "request-1");
+    assert.deepEqual(trace, ["circuit", "work"]);
+  });
+
+  test("unknown partitions and closed bulkheads reject", async () => {
+    const bulkhead = new Bulkhead<string>({
+      partitions: { search: { concurrency: 1 } },
+    });
+
+    await assert.rejects(
+      () => bulkhead.run("billing", async () => {}),
+      /Unknown bulkhead partition: billing/
+    );
+    bulkhead.close();
+    await assert.rejects(
+      () => bulkhead.run("search", async () => {}),
+      GateClosedError
+    );
+    await bulkhead.drain();
+  });
+});
@@ -0,0 +1,226 @@
+/**
+ * Bulkhead - Named AsyncGate partitions so one saturated dependency
+ * cannot starve the others
+ *
+ * DESIGN DECISIONS:
+ * - One gate per partition, each with its own concurrency and queue limit
+ * - Full means rejected now: BulkheadRejectedError (a QueueFullError) once
+ *   the partition's queue is full - no waiting for a timeout to find out
+ * - Optional shared overflow pool: work that would queue in its partition
+ *   borrows an idle overflow slot first; the pool itself never queues
+ * - Fail-before-gate: an OPEN circuit rejects before any slot or queue
+ *   position is taken; otherwise only fn runs inside the circuit, once the
+ *   slot is held - rejections, queue timeouts and aborts are never counted
+ *   as circuit failures, and a HALF_OPEN probe is not spent in the queue
+ */
+
+import { AsyncLocalStorage } from "node:async_hooks";
+import {
+  AsyncGate,
+  QueueFullError,
+  type AcquireOptions,
+  type GateStats,
+} from "./async-gate.ts";
+
+/** Structural view of Day-05 CircuitBreaker */
+export interface CircuitLike {
+  readonly state: "CLOSED" | "OPEN" | "HALF_OPEN";
+  run<T>(
+    fn: (signal: AbortSignal) => Promise<T>,
+    options?: { signal?: AbortSignal }
+  ): Promise<T>;
+}
+
+export interface PartitionOptions {
+  concurrency: number;
+  /** Waiters allowed once every slot is taken (default: 0 - reject at once) */
+  maxQueueLength?: number;
+  /** Rejects while OPEN before the partition is entered; wraps only fn */
+  circuit?: CircuitLike;
+}
+
+export interface OverflowPoolOptions {
+  /** Slots shared by every partition */
+  concurrency: number;
+}
+
+export interface BulkheadOptions<K extends string, C> {
+  partitions: Record<K, PartitionOptions>;
+  overflow?: OverflowPoolOptions;
+  store?: AsyncLocalStorage<C>;
+}
+
+export type BulkheadRunOptions = Pick<
+  AcquireOptions,
+  "timeout" | "signal" | "weight" | "deadline"
+>;
+
+export interface PartitionStats extends GateStats {
+  /** Runs rejected because the partition was full */
+  rejected: number;
+  /** Runs that executed in the overflow pool */
+  borrowed: number;
+}
+
+export interface BulkheadStats<K extends string> {
+  partitions: Record<K, PartitionStats>;
+  overflow?: GateStats;
+}
+
+export class BulkheadRejectedError extends QueueFullError {
+  readonly partition: string;
+
+  constructor(partition: string, queueLength: number) {
+    super(queueLength);
+    this.message = `Bulkhead partition "${partition}" is full (${queueLength} waiting)`;
+    this.name = "BulkheadRejectedError";
+    this.partition = partition;
+  }
+}
+
+interface Pool<C> {
+  gate: AsyncGate<C>;
+  concurrency: number;
+  /** Units running or queued, counted synchronously on entry */
+  demand: number;
+}
+
+interface Partition<C> extends Pool<C> {
+  name: string;
+  circuit: CircuitLike | null;
+  rejected: number;
+  borrowed: number;
+}
+
+export class Bulkhead<K extends string = string, C = unknown> {
+  private readonly partitions = new Map<string, Partition<C>>();
+  private readonly overflow: Pool<C> | null;
+
+  constructor(options: BulkheadOptions<K, C>) {
+    const { store } = options;
+    const entries = Object.entries<PartitionOptions>(options.partitions);
+    if (entries.length === 0) {
+      throw new Error("Bulkhead needs at least one partition");
+    }
+
+    for (const [name, partition] of entries) {
+      this.partitions.set(name, {
+        name,
+        gate: new AsyncGate({
+          concurrency: partition.concurrency,
+          maxQueueLength: partition.maxQueueLength ?? 0,
+          store,
+        }),
+        concurrency: partition.concurrency,
+        demand: 0,
+        circuit: partition.circuit ?? null,
+        rejected: 0,
+        borrowed: 0,
+      });
+    }
+
+    this.overflow = options.overflow
+      ? {
+          gate: new AsyncGate({
+            concurrency: options.overflow.concurrency,
+            maxQueueLength: 0,
+            store,
+          }),
+          concurrency: options.overflow.concurrency,
+          demand: 0,
+        }
+      : null;
+  }
+
+  /**
+   * Execute fn in the named partition, in the schedule-time context.
+   *
+   * Order: circuit state check → partition (or overflow) slot → fn inside
+   * the circuit.
+   *
+   * @throws BulkheadRejectedError when the partition and overflow are full
+   */
+  run<T>(
+    name: K,
+    fn: (signal: AbortSignal) => Promise<T>,
+    options: BulkheadRunOptions = {}
+  ): Promise<T> {
+    const partition = this.partitions.get(name);
+    if (!partition) {
+      return Promise.reject(new Error(`Unknown bulkhead partition: ${name}`));
+    }
+    const { circuit } = partition;
+    if (!circuit) return this.enter(partition, fn, options);
+    if (circuit.state === "OPEN") {
+      // The breaker rejects (and records it) without running fn
+      return circuit.run(fn, { signal: options.signal });
+    }
+    return this.enter(partition, (signal) => circuit.run(fn, { signal }), options);
+  }
+
+  /** Close every partition and the overflow pool. */
+  close(): void {
+    for (const { gate } of this.partitions.values()) gate.close();
+    this.overflow?.gate.close();
+  }
+
+  /** Resolve once no partition or overflow slot is held. */
+  async drain(): Promise<void> {
+    await Promise.all(
+      [...this.partitions.values(), ...(this.overflow ? [this.overflow] : [])]
+        .map(({ gate }) => gate.drain())
+    );
+  }
+
+  getStats(): BulkheadStats<K> {
+    const partitions = {} as Record<K, PartitionStats>;
+    for (const partition of this.partitions.values()) {
+      partitions[partition.name as K] = {
+        ...partition.gate.getStats(),
+        rejected: partition.rejected,
+        borrowed: partition.borrowed,
+      };
+    }
+    return { partitions, overflow: this.overflow?.gate.getStats() };
+  }
+
+  // ─── Private ───────────────────────────────────────────────
+
+  private async enter<T>(
+    partition: Partition<C>,
+    fn: (signal: AbortSignal) => Promise<T>,
+    options: BulkheadRunOptions
+  ): Promise<T> {
+    const weight = options.weight ?? 1;
+    const pool =
+      !hasRoom(partition, weight) && this.overflow && hasRoom(this.overflow, weight)
+        ? this.overflow
+        : partition;
+    if (pool !== partition) partition.borrowed++;
+
+    let started = false;
+    pool.demand += weight;
+    try {
+      return await pool.gate.run((signal) => {
+        started = true;
+        return fn(signal);
+      }, options);
+    } catch (error) {
+      // Only the partition's own queue limit - not a QueueFullError from fn
+      if (!started && error instanceof QueueFullError) {
+        partition.rejected++;
+        throw new BulkheadRejectedError(partition.name, error.queueLength);
+      }
+      throw error;
+    } finally {
+      pool.demand -= weight;
+    }
+  }
+}
+
+// ─── Helpers ─────────────────────────────────────────────────
+
+/** Would a new arrival get a slot without queueing? */
+function hasRoom<C>(pool: Pool<C>, weight: number): boolean {
+  return pool.demand + weight <= pool.concurrency;
+}
@@ -8,12 +8,15 @@ import { AsyncLocalStorage } from "node:async_hooks";
  *
  * Single-shot: run() can only be called once.
  * No global state: only knows about the store passed to it.
+ * Disposable: `using carrier = ...` drops the captured context if the
+ * carrier is never run. Disposing twice (or after run()) is a no-op.
  */
-export class ContextCarrier<T, C> {
-  private readonly capturedContext: C | undefined;
+export class ContextCarrier<T, C> implements Disposable, AsyncDisposable {
+  private capturedContext: C | undefined;
   private readonly fn: () => Promise<T>;
   private readonly store: AsyncLocalStorage<C>;
   private executed = false;
+  private disposed = false;
 
   constructor(fn: () => Promise<T>, store: AsyncLocalStorage<C>) {
     this.fn = fn;
@@ -29,6 +32,9 @@ export class ContextCarrier<T, C> {
    * @returns Promise resolving to fn's return value
    */
   async run(): Promise<T> {
+    if (this.disposed) {
+      throw new Error("ContextCarrier is disposed");
+    }
     if (this.executed) {
       throw new Error("ContextCarrier is single-shot: run() already called");
     }
@@ -43,6 +49,27 @@ export class ContextCarrier<T, C> {
     return this.store.run(this.capturedContext, this.fn);
   }
 
+  /**
+   * Discard the carrier: release the captured context, forbid run().
+   * Idempotent.
+   */
+  [Symbol.dispose](): void {
+    if (this.disposed) return;
+    this.disposed = true;
+    this.capturedContext = undefined;
+  }
+
+  async [Symbol.asyncDispose](): Promise<void> {
+    this[Symbol.dispose]();
+  }
+
+  /**
+   * Check if this carrier has been disposed.
+   */
+  get isDisposed(): boolean {
+    return this.disposed;
+  }
+
   /**
    * Check if this carrier has already been executed.
    */
@@ -0,0 +1,233 @@
+import assert from "node:assert/strict";
+import { AsyncLocalStorage } from "node:async_hooks";
+import { EventEmitter } from "node:events";
+import { createConnection, createServer, type Socket } from "node:net";
+import { tmpdir } from "node:os";
+import { join } from "node:path";
+import { describe, test } from "node:test";
+import {
+  AbortError,
+  AsyncGate,
+  GateClosedError,
+  TimeoutError,
+} from "./async-gate.ts";
+import {
+  GateClient,
+  GateCoordinator,
+  socketChannel,
+  type IpcChannel,
+} from "./gate-coordinator.ts";
+
+const delay = (ms: number) => new Promise<void>((r) => setTimeout(r, ms));
+
+type Endpoint = IpcChannel & EventEmitter;
+
+// Helper: in-memory IPC link [primary side, worker side] - async and cloned
+function link(): [Endpoint, Endpoint] {
+  const primary = new EventEmitter() as Endpoint;
+  const worker = new EventEmitter() as Endpoint;
+  const deliver = (to: Endpoint) => (m: unknown) =>
+    setImmediate(() => to.emit("message", structuredClone(m)));
+  primary.send = deliver(worker);
+  worker.send = deliver(primary);
+  return [primary, worker];
+}
+
+function cluster(concurrency: number, workers: number) {
+  const gate = new AsyncGate({ concurrency });
+  const coordinator = new GateCoordinator(gate);
+  const links = Array.from({ length: workers }, () => link());
+  for (const [primary] of links) coordinator.attach(primary);
+  const clients = links.map(([, worker]) => new GateClient(worker));
+  return { gate, coordinator, links, clients };
+}
+
+describe("GateCoordinator", () => {
+  test("workers share one limit", async () => {
+    const { gate, clients } = cluster(1, 2);
+    const [a, b] = clients;
+    const release = await a.acquire();
+
+    let granted = false;
+    const waiting = b.acquire().then((r) => {
+      granted = true;
+      return r;
+    });
+    await delay(10);
+    assert.equal(granted, false);
+    assert.equal(gate.getStats().queued, 1);
+
+    release();
+    (await waiting)();
+    await delay(5);
+    assert.equal(gate.getStats().running, 0);
+  });
+
+  test("gate errors arrive as the same error classes", async () => {
+    const { gate, clients } = cluster(1, 2);
+    const [a, b] = clients;
+    const release = await a.acquire();
+
+    await assert.rejects(() => b.acquire({ timeout: 10 }), TimeoutError);
+    gate.close();
+    await assert.rejects(() => b.acquire(), GateClosedError);
+    release();
+  });
+
+  test("abort is forwarded to the coordinator", async () => {
+    const { gate, clients } = cluster(1, 2);
+    const [a, b] = clients;
+    const release = await a.acquire();
+    const controller = new AbortController();
+
+    const aborted = b.acquire({ signal: controller.signal });
+    await delay(5);
+    controller.abort();
+    await assert.rejects(aborted, AbortError);
+    await delay(5);
+    assert.equal(gate.getStats().queued, 0);
+    release();
+  });
+
+  test("reclaims permits and queued acquires of a crashed worker", async () => {
+    const { gate, coordinator, links, clients } = cluster(2, 2);
+    const [a, b] = clients;
+    await a.acquire({ weight: 2 });
+    a.acquire().catch(() => {}); // Queued when the worker dies
+    const waiting = b.acquire();
+    await delay(5);
+
+    links[0][0].emit("exit", 1);
+    (await waiting)();
+    await delay(5);
+
+    assert.deepEqual(coordinator.getStats(), { clients: 1, held: 0, reclaimed: 2 });
+    assert.equal(gate.getStats().running, 0);
+    assert.equal(gate.getStats().queued, 0);
+  });
+
+  test("a grant that races an abort is handed back", async () => {
+    const { gate, clients } = cluster(1, 1);
+    const controller = new AbortController();
+    const acquiring = clients[0].acquire({ signal: controller.signal });
+    controller.abort(); // Grant is already on its way back
+    await assert.rejects(acquiring, AbortError);
+    await delay(10);
+    assert.equal(gate.getStats().running, 0);
+  });
+
+  test("client run() restores context and fits AsyncGateLike", async () => {
+    const store = new AsyncLocalStorage<string>();
+    const [primary, worker] = link();
+    new GateCoordinator(new AsyncGate({ concurrency: 1 })).attach(primary);
+    const client = new GateClient(worker, { store });
+
+    // Structural shape retryWithGate() expects
+    const gateLike: {
+      acquire(o?: { timeout?: number; signal?: AbortSignal }): Promise<() => void>;
+    } = client;
+    const hold = await gateLike.acquire();
+
+    const result = store.run("request-1", () =>
+      client.run(async () => store.getStore())
+    );
+    store.run("request-2", hold);
+    assert.equal(await result, "request-1");
+  });
+
+  test("close() rejects pending acquires and hands their grants back", async () => {
+    const { gate, clients } = cluster(1, 2);
+    const [a, b] = clients;
+    const release = await a.acquire();
+    const pending = b.acquire();
+    await delay(5);
+
+    b.close();
+    await assert.rejects(pending, GateClosedError);
+    await assert.rejects(() => b.acquire(), GateClosedError);
+    release();
+    await delay(10);
+    assert.equal(gate.getStats().running, 0);
+  });
+
+  test("close() aborts the signal of in-flight client runs", async () => {
+    const { gate, clients } = cluster(1, 1);
+    const [client] = clients;
+
+    const running = client.run(
+      (signal) =>
+        new Promise((_, reject) => {
+          signal.addEventListener("abort", () => reject(signal.reason));
+        })
+    );
+    await delay(5);
+    client.close();
+
+    await assert.rejects(running, GateClosedError);
+    await delay(10);
+    assert.equal(gate.getStats().running, 0);
+  });
+
+  test("works over a Unix domain socket", async () => {
+    const path = join(tmpdir(), `gate-${process.pid}-${Date.now()}.sock`);
+    const gate = new AsyncGate({ concurrency: 1 });
+    const coordinator = new GateCoordinator(gate);
+    const sockets: Socket[] = [];
+    const server = createServer((socket) => {
+      sockets.push(socket);
+      coordinator.attach(socketChannel(socket));
+    });
+    await new Promise<void>((resolve) => server.listen(path, resolve));
+
+    const connect = () =>
+      new Promise<Socket>((resolve) => {
+        const socket = createConnection(path, () => resolve(socket));
+      });
+    const crashing = await connect();
+    const healthy = await connect();
+    const a = new GateClient(socketChannel(crashing));
+    const b = new GateClient(socketChannel(healthy));
+
+    await a.acquire();
+    const waiting = b.acquire({ timeout: 1000 });
+    crashing.destroy(); // Worker dies holding the permit
+    (await waiting)();
+
+    assert.equal(coordinator.getStats().reclaimed, 1);
+    healthy.destroy();
+    for (const socket of sockets) socket.destroy();
+    await new Promise((resolve) => server.close(resolve));
+  });
+
+  test("a malformed socket line drops only that worker", async () => {
+    const path = join(tmpdir(), `gate-${process.pid}-${Date.now()}.sock`);
+    const gate = new AsyncGate({ concurrency: 1 });
+    const coordinator = new GateCoordinator(gate);
+    const sockets: Socket[] = [];
+    const server = createServer((socket) => {
+      sockets.push(socket);
+      coordinator.attach(socketChannel(socket));
+    });
+    await new Promise<void>((resolve) => server.listen(path, resolve));
+
+    const connect = () =>
+      new Promise<Socket>((resolve) => {
+        const socket = createConnection(path, () => resolve(socket));
+      });
+    const garbled = await connect();
+    const healthy = await connect();
+    const a = new GateClient(socketChannel(garbled));
+    const b = new GateClient(socketChannel(healthy));
+
+    await a.acquire();
+    const waiting = b.acquire({ timeout: 1000 });
+    garbled.write("{not json\n");
+    (await waiting)(); // The garbled worker's permit was reclaimed
+
+    assert.equal(coordinator.getStats().clients, 1);
+    garbled.destroy();
+    healthy.destroy();
+    for (const socket of sockets) socket.destroy();
+    await new Promise((resolve) => server.close(resolve));
+  });
+});
@@ -0,0 +1,397 @@
+/**
+ * GateCoordinator / GateClient - One AsyncGate shared by every cluster worker
+ *
+ * DESIGN DECISIONS:
+ * - The primary owns the only real gate; workers hold remote permits
+ * - Transport-agnostic: anything with send()/on("message") - a cluster
+ *   worker, `process` in the worker, or a Unix socket via socketChannel()
+ * - A worker that disconnects or exits loses every permit it held and
+ *   every acquire it had queued: the coordinator reclaims them
+ * - Context stays in the worker: the client's run() restores it locally,
+ *   only timeout/priority/weight/deadline/flow cross the wire
+ */
+
+import { AsyncLocalStorage } from "node:async_hooks";
+import { EventEmitter } from "node:events";
+import type { Socket } from "node:net";
+import {
+  AbortError,
+  AsyncGate,
+  GateClosedError,
+  QueueFullError,
+  TimeoutError,
+  type AcquireOptions,
+  type Permit,
+} from "./async-gate.ts";
+
+/**
+ * Minimal message channel - satisfied by cluster.Worker, by `process` in a
+ * forked worker (cast: its send() is optional) and by socketChannel().
+ */
+export interface IpcChannel {
+  send(message: GateMessage): unknown;
+  on(event: string, listener: (message: unknown) => void): unknown;
+  off(event: string, listener: (message: unknown) => void): unknown;
+}
+
+/** Acquire options that can cross the wire (no AbortSignal) */
+export type RemoteAcquireOptions = Omit<AcquireOptions, "signal">;
+
+export type GateMessage =
+  | { type: "gate:acquire"; id: number; options: RemoteAcquireOptions }
+  | { type: "gate:release"; id: number; units?: number }
+  | { type: "gate:abort"; id: number }
+  | { type: "gate:granted"; id: number }
+  | { type: "gate:rejected"; id: number; error: RemoteError };
+
+interface RemoteError {
+  name: string;
+  message: string;
+  queueLength?: number;
+}
+
+export interface CoordinatorStats {
+  /** Attached clients */
+  clients: number;
+  /** Remote permits currently held */
+  held: number;
+  /** Units taken back from clients that went away */
+  reclaimed: number;
+}
+
+/** Channel events that mean the other side is gone */
+const GONE_EVENTS = ["disconnect", "exit"];
+
+interface Grant {
+  permit: Permit;
+  /** Units not yet returned */
+  units: number;
+}
+
+interface Session {
+  /** Granted permits by request id */
+  held: Map<number, Grant>;
+  /** Queued acquires by request id */
+  pending: Map<number, AbortController>;
+}
+
+export class GateCoordinator<C = unknown> {
+  private readonly gate: AsyncGate<C>;
+  private readonly sessions = new Map<IpcChannel, () => void>();
+  private held = 0;
+  private reclaimed = 0;
+
+  constructor(gate: AsyncGate<C>) {
+    this.gate = gate;
+  }
+
+  /**
+   * Serve a client over the channel until it disconnects or exits.
+   * Returns a detach function that also reclaims the client's permits.
+   */
+  attach(channel: IpcChannel): () => void {
+    const existing = this.sessions.get(channel);
+    if (existing) return existing;
+
+    const session: Session = { held: new Map(), pending: new Map() };
+    const onMessage = (message: unknown) => {
+      if (isGateMessage(message)) this.handle(channel, session, message);
+    };
+    const detach = () => {
+      if (!this.sessions.delete(channel)) return;
+      channel.off("message", onMessage);
+      for (const event of GONE_EVENTS) channel.off(event, detach);
+      for (const controller of session.pending.values()) controller.abort();
+      session.pending.clear();
+      for (const grant of session.held.values()) {
+        this.reclaimed += grant.units;
+        this.held--;
+        grant.permit[Symbol.dispose]();
+      }
+      session.held.clear();
+    };
+
+    channel.on("message", onMessage);
+    for (const event of GONE_EVENTS) channel.on(event, detach);
+    this.sessions.set(channel, detach);
+    return detach;
+  }
+
+  getStats(): CoordinatorStats {
+    return {
+      clients: this.sessions.size,
+      held: this.held,
+      reclaimed: this.reclaimed,
+    };
+  }
+
+  private handle(
+    channel: IpcChannel,
+    session: Session,
+    message: GateMessage
+  ): void {
+    switch (message.type) {
+      case "gate:acquire": {
+        const { id, options } = message;
+        const controller = new AbortController();
+        session.pending.set(id, controller);
+        this.gate.acquire({ ...options, signal: controller.signal }).then(
+          (permit) => {
+            session.pending.delete(id);
+            // Aborted or detached while the grant was in flight
+            if (controller.signal.aborted) return permit();
+            session.held.set(id, { permit, units: options.weight ?? 1 });
+            this.held++;
+            channel.send({ type: "gate:granted", id });
+          },
+          (error: Error) => {
+            session.pending.delete(id);
+            if (controller.signal.aborted) return;
+            channel.send({ type: "gate:rejected", id, error: toRemote(error) });
+          }
+        );
+        break;
+      }
+      case "gate:release": {
+        const grant = session.held.get(message.id);
+        const units = message.units ?? grant?.units ?? 0;
+        // A confused client must not take the primary down with it
+        if (!grant || !Number.isInteger(units)) return;
+        if (units <= 0 || units > grant.units) return;
+        grant.permit(units);
+        grant.units -= units;
+        if (grant.units === 0) {
+          session.held.delete(message.id);
+          this.held--;
+        }
+        break;
+      }
+      case "gate:abort":
+        session.pending.get(message.id)?.abort();
+        break;
+    }
+  }
+}
+
+export interface GateClientOptions<C> {
+  store?: AsyncLocalStorage<C>;
+}
+
+interface PendingAcquire {
+  weight: number;
+  resolve: (permit: Permit) => void;
+  reject: (error: Error) => void;
+}
+
+/**
+ * Worker-side handle to a GateCoordinator - satisfies AsyncGateLike,
+ * so retryWithGate(retrier, client, fn) works unchanged.
+ */
+export class GateClient<C = unknown> {
+  private readonly channel: IpcChannel;
+  private readonly store: AsyncLocalStorage<C> | null;
+  private readonly pending = new Map<number, PendingAcquire>();
+  /** Signals handed to in-flight run() calls - close() aborts them */
+  private readonly inflight = new Set<AbortController>();
+  private nextId = 0;
+  private _closed = false;
+  private readonly onMessage = (message: unknown) => {
+    if (!isGateMessage(message)) return;
+    const waiter = this.pending.get(message.id);
+    if (!waiter) {
+      // Granted after we gave up on it (abort/close raced the grant): hand it back
+      if (message.type === "gate:granted") {
+        this.channel.send({ type: "gate:release", id: message.id });
+      }
+      return;
+    }
+    if (message.type === "gate:granted") {
+      this.pending.delete(message.id);
+      waiter.resolve(this.createRelease(message.id, waiter.weight));
+    } else if (message.type === "gate:rejected") {
+      this.pending.delete(message.id);
+      waiter.reject(fromRemote(message.error));
+    }
+  };
+
+  constructor(channel: IpcChannel, options: GateClientOptions<C> = {}) {
+    this.channel = channel;
+    this.store = options.store ?? null;
+    channel.on("message", this.onMessage);
+  }
+
+  /**
+   * Acquire a permit from the coordinator's gate.
+   * Timeouts run on the coordinator; abort is forwarded to it.
+   */
+  async acquire(options: AcquireOptions = {}): Promise<Permit> {
+    const { signal, ...remote } = options;
+    if (this._closed) throw new GateClosedError();
+    if (signal?.aborted) throw new AbortError();
+
+    const id = this.nextId++;
+    return new Promise<Permit>((resolve, reject) => {
+      const onAbort = () => {
+        this.pending.delete(id);
+        this.channel.send({ type: "gate:abort", id });
+        reject(new AbortError());
+      };
+      signal?.addEventListener("abort", onAbort, { once: true });
+      this.pending.set(id, {
+        weight: remote.weight ?? 1,
+        resolve: (permit) => {
+          signal?.removeEventListener("abort", onAbort);
+          resolve(permit);
+        },
+        reject: (error) => {
+          signal?.removeEventListener("abort", onAbort);
+          reject(error);
+        },
+      });
+      this.channel.send({ type: "gate:acquire", id, options: remote });
+    });
+  }
+
+  /**
+   * Execute function with a remote permit, in the schedule-time context.
+   * fn's signal aborts with options.signal or when this client closes.
+   */
+  async run<T>(
+    fn: (signal: AbortSignal) => Promise<T>,
+    options: AcquireOptions = {}
+  ): Promise<T> {
+    const capturedContext = this.store?.getStore();
+    const release = await this.acquire(options);
+
+    const { signal } = options;
+    const controller = new AbortController();
+    const onAbort = () => controller.abort(signal!.reason);
+    if (signal?.aborted) onAbort();
+    else signal?.addEventListener("abort", onAbort, { once: true });
+    if (!this._closed) this.inflight.add(controller);
+    else controller.abort(new GateClosedError());
+    const exec = () => fn(controller.signal);
+
+    try {
+      if (this.store && capturedContext !== undefined) {
+        return await this.store.run(capturedContext, exec);
+      }
+      return await exec();
+    } finally {
+      signal?.removeEventListener("abort", onAbort);
+      this.inflight.delete(controller);
+      release();
+    }
+  }
+
+  /**
+   * Stop using the coordinator: pending acquires reject with GateClosedError.
+   * Held permits stay valid until released (or until this worker exits);
+   * in-flight run() signals abort.
+   */
+  close(): void {
+    if (this._closed) return;
+    this._closed = true;
+    for (const [id, waiter] of this.pending) {
+      this.channel.send({ type: "gate:abort", id });
+      waiter.reject(new GateClosedError());
+    }
+    this.pending.clear();
+    for (const controller of this.inflight) controller.abort(new GateClosedError());
+    this.inflight.clear();
+  }
+
+  get closed(): boolean {
+    return this._closed;
+  }
+
+  private createRelease(id: number, weight: number): Permit {
+    let held = weight;
+    const release = (units = held) => {
+      if (held === 0) throw new Error("Release called twice");
+      if (!Number.isInteger(units) || units <= 0 || units > held) {
+        throw new Error(`Cannot release ${units} units, ${held} held`);
+      }
+      held -= units;
+      this.channel.send({ type: "gate:release", id, units });
+    };
+    const dispose = () => {
+      if (held > 0) release();
+    };
+    return Object.assign(release, {
+      [Symbol.dispose]: dispose,
+      [Symbol.asyncDispose]: async () => dispose(),
+    });
+  }
+}
+
+/**
+ * Adapt a socket (e.g. a Unix domain socket) to an IpcChannel using
+ * newline-delimited JSON. The socket closing counts as "disconnect".
+ * A line that is not JSON destroys the socket: the peer's stream can no
+ * longer be trusted, and the coordinator reclaims what it held.
+ */
+export function socketChannel(socket: Socket): IpcChannel {
+  const events = new EventEmitter();
+  let buffered = "";
+  socket.setEncoding("utf8");
+  socket.on("data", (chunk: string) => {
+    buffered += chunk;
+    let newline: number;
+    while ((newline = buffered.indexOf("\n")) !== -1) {
+      const line = buffered.slice(0, newline);
+      buffered = buffered.slice(newline + 1);
+      if (!line) continue;
+      let message: unknown;
+      try {
+        message = JSON.parse(line);
+      } catch {
+        socket.destroy();
+        return;
+      }
+      events.emit("message", message);
+    }
+  });
+  socket.on("close", () => events.emit("disconnect"));
+
+  return {
+    send: (message) => socket.write(`${JSON.stringify(message)}\n`),
+    on: (event, listener) => events.on(event, listener),
+    off: (event, listener) => events.off(event, listener),
+  };
+}
+
+// ─── Helpers ─────────────────────────────────────────────────
+
+function isGateMessage(message: unknown): message is GateMessage {
+  return (
+    typeof message === "object" &&
+    message !== null &&
+    typeof (message as { type?: unknown }).type === "string" &&
+    (message as { type: string }).type.startsWith("gate:")
+  );
+}
+
+function toRemote(error: Error): RemoteError {
+  return {
+    name: error.name,
+    message: error.message,
+    queueLength: error instanceof QueueFullError ? error.queueLength : undefined,
+  };
+}
+
+/** Rebuild the gate's error classes so instanceof checks keep working. */
+function fromRemote(remote: RemoteError): Error {
+  switch (remote.name) {
+    case "TimeoutError":
+      return new TimeoutError();
+    case "AbortError":
+      return new AbortError();
+    case "GateClosedError":
+      return new GateClosedError();
+    case "QueueFullError":
+      return new QueueFullError(remote.queueLength ?? 0);
+    default:
+      return Object.assign(new Error(remote.message), { name: remote.name });
+  }
+}
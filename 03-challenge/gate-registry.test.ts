@@ -0,0 +1,109 @@
+import assert from "node:assert/strict";
+import { describe, test } from "node:test";
+import { GateClosedError } from "./async-gate.ts";
+import { GateRegistry } from "./gate-registry.ts";
+
+const delay = (ms: number) => new Promise<void>((r) => setTimeout(r, ms));
+
+describe("GateRegistry", () => {
+  test("lazily creates one gate per key from the factory", async () => {
+    const created: string[] = [];
+    const registry = new GateRegistry<string>({
+      create: (key) => {
+        created.push(key);
+        return { concurrency: key === "big" ? 5 : 1 };
+      },
+    });
+
+    assert.equal(registry.size, 0);
+    await registry.run("small", async () => {});
+    await registry.run("small", async () => {});
+    await registry.run("big", async () => {});
+
+    assert.deepEqual(created, ["small", "big"]);
+    assert.equal(registry.get("big").getStats().concurrency, 5);
+  });
+
+  test("limits are independent per key", async () => {
+    const registry = new GateRegistry<string>({ create: () => ({ concurrency: 1 }) });
+    const releaseA = await registry.acquire("tenant-a");
+
+    // tenant-b is not blocked by tenant-a
+    const releaseB = await registry.acquire("tenant-b", { timeout: 10 });
+    releaseB();
+    releaseA();
+  });
+
+  test("LRU eviction skips gates with running or queued work", async () => {
+    const registry = new GateRegistry<string>({
+      create: () => ({ concurrency: 1 }),
+      maxSize: 2,
+    });
+    const busy = await registry.acquire("busy");
+    await registry.run("idle", async () => {});
+
+    registry.get("new"); // over capacity: "idle" goes, "busy" stays
+
+    assert.deepEqual([...registry.getStats().byKey.keys()].sort(), ["busy", "new"]);
+    assert.equal(registry.getStats().evictions, 1);
+    busy();
+  });
+
+  test("stays over maxSize rather than evicting busy gates", async () => {
+    const registry = new GateRegistry<string>({
+      create: () => ({ concurrency: 1 }),
+      maxSize: 1,
+    });
+    const a = await registry.acquire("a");
+    const b = await registry.acquire("b");
+
+    assert.equal(registry.size, 2);
+    a();
+    b();
+  });
+
+  test("idle TTL evicts and closes stale gates", async () => {
+    const registry = new GateRegistry<string>({
+      create: () => ({ concurrency: 1 }),
+      idleTtl: 20,
+    });
+    const stale = registry.get("stale");
+
+    await delay(40);
+    assert.equal(registry.prune(), 1);
+    assert.equal(registry.size, 0);
+    await assert.rejects(() => stale.acquire(), GateClosedError);
+
+    // The key is recreated on demand
+    await registry.run("stale", async () => {});
+  });
+
+  test("idle TTL never evicts a gate with work in flight", async () => {
+    const registry = new GateRegistry<string>({
+      create: () => ({ concurrency: 1 }),
+      idleTtl: 10,
+    });
+    const release = await registry.acquire("long");
+
+    await delay(30);
+    assert.equal(registry.prune(), 0);
+    release();
+  });
+
+  test("aggregates stats across keys", async () => {
+    const registry = new GateRegistry<string>({ create: () => ({ concurrency: 1 }) });
+    const a = await registry.acquire("a");
+    const b = await registry.acquire("b");
+    const queued = registry.acquire("a");
+
+    const stats = registry.getStats();
+    assert.equal(stats.gates, 2);
+    assert.equal(stats.running, 2);
+    assert.equal(stats.queued, 1);
+    assert.equal(stats.byKey.get("a")?.queued, 1);
+
+    a();
+    (await queued)();
+    b();
+  });
+});
@@ -0,0 +1,173 @@
+/**
+ * GateRegistry - Keyed AsyncGate pool for per-tenant / per-host limits
+ *
+ * DESIGN DECISIONS:
+ * - Lazy creation: a gate exists only once its key is first used
+ * - Busy gates are never evicted: running or queued work pins a gate
+ * - Eviction closes the gate, so a stale reference fails loudly
+ *   instead of silently doubling the key's concurrency
+ */
+
+import {
+  AsyncGate,
+  type AcquireOptions,
+  type AsyncGateOptions,
+  type GateStats,
+  type Permit,
+} from "./async-gate.ts";
+
+export interface GateRegistryOptions<K, C> {
+  /** Gate options for a key, called once when the key is first used */
+  create: (key: K) => AsyncGateOptions<C>;
+  /** Maximum number of gates kept; least recently used idle gates go first */
+  maxSize?: number;
+  /** Evict gates that stayed idle for this many ms (default: never) */
+  idleTtl?: number;
+}
+
+export interface RegistryStats<K> {
+  gates: number;
+  /** Units held across all gates */
+  running: number;
+  /** Waiters queued across all gates */
+  queued: number;
+  evictions: number;
+  byKey: Map<K, GateStats>;
+}
+
+interface Entry<C> {
+  gate: AsyncGate<C>;
+  lastUsed: number;
+}
+
+export class GateRegistry<K = string, C = unknown> {
+  private readonly create: (key: K) => AsyncGateOptions<C>;
+  private readonly maxSize: number;
+  private readonly idleTtl: number;
+  /** Map order doubles as LRU order: least recently used first */
+  private readonly entries = new Map<K, Entry<C>>();
+  private evictions = 0;
+
+  constructor(options: GateRegistryOptions<K, C>) {
+    this.create = options.create;
+    this.maxSize = options.maxSize ?? Infinity;
+    this.idleTtl = options.idleTtl ?? Infinity;
+
+    if (this.maxSize < 1) {
+      throw new Error("maxSize must be >= 1");
+    }
+    if (this.idleTtl <= 0) {
+      throw new Error("idleTtl must be > 0");
+    }
+  }
+
+  get size(): number {
+    return this.entries.size;
+  }
+
+  /**
+   * Get (or lazily create) the gate for a key.
+   *
+   * Prefer run()/acquire() - a reference held across an eviction points at
+   * a closed gate.
+   */
+  get(key: K): AsyncGate<C> {
+    const now = Date.now();
+    this.prune(now);
+
+    let entry = this.entries.get(key);
+    if (entry) {
+      this.entries.delete(key);
+    } else {
+      entry = { gate: new AsyncGate(this.create(key)), lastUsed: now };
+    }
+    entry.lastUsed = now;
+    this.entries.set(key, entry);
+
+    this.evictOverflow(key);
+    return entry.gate;
+  }
+
+  acquire(key: K, options?: AcquireOptions): Promise<Permit> {
+    return this.get(key).acquire(options);
+  }
+
+  run<T>(
+    key: K,
+    fn: (signal: AbortSignal) => Promise<T>,
+    options?: AcquireOptions
+  ): Promise<T> {
+    return this.get(key).run(fn, options);
+  }
+
+  /**
+   * Evict gates idle for longer than idleTtl.
+   * Runs on every get(); call directly to sweep without traffic.
+   *
+   * @returns number of evicted gates
+   */
+  prune(now = Date.now()): number {
+    if (this.idleTtl === Infinity) return 0;
+    let evicted = 0;
+
+    for (const [key, entry] of this.entries) {
+      if (now - entry.lastUsed <= this.idleTtl) break; // LRU order: rest is fresher
+      if (isIdle(entry.gate)) {
+        this.evict(key, entry);
+        evicted++;
+      } else {
+        // Busy counts as use: move to the fresh end
+        entry.lastUsed = now;
+        this.entries.delete(key);
+        this.entries.set(key, entry);
+      }
+    }
+    return evicted;
+  }
+
+  /**
+   * Aggregated statistics across all live gates.
+   */
+  getStats(): RegistryStats<K> {
+    const byKey = new Map<K, GateStats>();
+    let running = 0;
+    let queued = 0;
+
+    for (const [key, { gate }] of this.entries) {
+      const stats = gate.getStats();
+      byKey.set(key, stats);
+      running += stats.running;
+      queued += stats.queued;
+    }
+
+    return {
+      gates: this.entries.size,
+      running,
+      queued,
+      evictions: this.evictions,
+      byKey,
+    };
+  }
+
+  // ─── Private ──────────────────────────────────────────────────────
+
+  private evictOverflow(requested: K): void {
+    if (this.entries.size <= this.maxSize) return;
+    for (const [key, entry] of this.entries) {
+      if (this.entries.size <= this.maxSize) return;
+      if (key !== requested && isIdle(entry.gate)) this.evict(key, entry);
+    }
+    // Every gate is busy: stay over maxSize rather than drop live work
+  }
+
+  private evict(key: K, entry: Entry<C>): void {
+    this.entries.delete(key);
+    entry.gate.close();
+    this.evictions++;
+  }
+}
+
+function isIdle<C>(gate: AsyncGate<C>): boolean {
+  const { running, queued } = gate.getStats();
+  return running === 0 && queued === 0;
+}
@@ -0,0 +1,68 @@
+/**
+ * Histogram - Fixed-bucket latency histogram
+ *
+ * Non-cumulative buckets with upper bounds in ms; the last bucket is
+ * unbounded. Percentiles are estimated as the upper bound of the bucket
+ * that contains them (the max for the unbounded bucket).
+ */
+
+export const DEFAULT_BUCKETS = [
+  1, 2, 5, 10, 25, 50, 100, 250, 500, 1000, 2500, 5000, 10000,
+];
+
+export interface HistogramSnapshot {
+  /** Per-bucket counts; `le` is the inclusive upper bound in ms */
+  buckets: Array<{ le: number; count: number }>;
+  count: number;
+  sum: number;
+  max: number;
+  p50: number;
+  p95: number;
+  p99: number;
+}
+
+export class Histogram {
+  private readonly bounds: number[];
+  private readonly counts: number[];
+  private count = 0;
+  private sum = 0;
+  private max = 0;
+
+  constructor(bounds: number[] = DEFAULT_BUCKETS) {
+    this.bounds = [...bounds].sort((a, b) => a - b);
+    this.bounds.push(Infinity);
+    this.counts = new Array(this.bounds.length).fill(0);
+  }
+
+  record(ms: number): void {
+    let i = 0;
+    while (ms > this.bounds[i]) i++;
+    this.counts[i]++;
+    this.count++;
+    this.sum += ms;
+    if (ms > this.max) this.max = ms;
+  }
+
+  percentile(p: number): number {
+    if (this.count === 0) return 0;
+    const rank = Math.ceil((p / 100) * this.count);
+    let seen = 0;
+    for (let i = 0; i < this.counts.length; i++) {
+      seen += this.counts[i];
+      if (seen >= rank) return Math.min(this.bounds[i], this.max);
+    }
+    return this.max;
+  }
+
+  snapshot(): HistogramSnapshot {
+    return {
+      buckets: this.bounds.map((le, i) => ({ le, count: this.counts[i] })),
+      count: this.count,
+      sum: this.sum,
+      max: this.max,
+      p50: this.percentile(50),
+      p95: this.percentile(95),
+      p99: this.percentile(99),
+    };
+  }
+}
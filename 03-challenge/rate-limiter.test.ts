@@ -0,0 +1,84 @@
+import assert from "node:assert/strict";
+import { AsyncLocalStorage } from "node:async_hooks";
+import { describe, test } from "node:test";
+import { AbortError, TimeoutError } from "./async-gate.ts";
+import { RateLimiter } from "./rate-limiter.ts";
+
+// Same shape as Day-04 AsyncGateLike (retryWithGate's gate parameter)
+interface AsyncGateLike {
+  acquire(options?: { timeout?: number; signal?: AbortSignal }): Promise<() => void>;
+}
+
+describe("RateLimiter", () => {
+  test("allows a burst, then paces at the refill rate", async () => {
+    const limiter = new RateLimiter({ rate: 2, interval: 50, burst: 2 });
+    const startedAt = Date.now();
+    const times: number[] = [];
+
+    await Promise.all(
+      Array.from({ length: 4 }, () =>
+        limiter.run(async () => {
+          times.push(Date.now() - startedAt);
+        })
+      )
+    );
+
+    assert.ok(times[1] < 20, "Burst of 2 should start immediately");
+    assert.ok(times[3] >= 40, `4th start should wait for refill, got ${times[3]}ms`);
+  });
+
+  test("serves waiters in FIFO order, costly head is not overtaken", async () => {
+    const limiter = new RateLimiter({ rate: 1, interval: 10, burst: 3 });
+    await limiter.acquire({ tokens: 3 });
+    const order: string[] = [];
+
+    const heavy = limiter.acquire({ tokens: 3 }).then(() => order.push("heavy"));
+    const light = limiter.acquire().then(() => order.push("light"));
+
+    await Promise.all([heavy, light]);
+    assert.deepEqual(order, ["heavy", "light"]);
+  });
+
+  test("timeout rejects with TimeoutError and frees the queue", async () => {
+    const limiter = new RateLimiter({ rate: 1, interval: 1000 });
+    await limiter.acquire();
+
+    await assert.rejects(() => limiter.acquire({ timeout: 10 }), TimeoutError);
+  });
+
+  test("abort rejects with AbortError", async () => {
+    const limiter = new RateLimiter({ rate: 1, interval: 1000 });
+    await limiter.acquire();
+    const controller = new AbortController();
+
+    const pending = limiter.acquire({ signal: controller.signal });
+    setTimeout(() => controller.abort(), 5);
+    await assert.rejects(() => pending, AbortError);
+
+    controller.abort();
+    await assert.rejects(() => limiter.acquire({ signal: controller.signal }), AbortError);
+  });
+
+  test("rejects costs above burst", async () => {
+    const limiter = new RateLimiter({ rate: 5 });
+    await assert.rejects(() => limiter.acquire({ tokens: 6 }), /Tokens must be/);
+  });
+
+  test("run() restores schedule-time context", async () => {
+    const store = new AsyncLocalStorage<string>();
+    const limiter = new RateLimiter({ rate: 1, interval: 20, store });
+    await limiter.acquire();
+
+    const observed = await store.run("scheduled", () =>
+      limiter.run(async () => store.getStore())
+    );
+    assert.equal(observed, "scheduled");
+  });
+
+  test("satisfies AsyncGateLike for retryWithGate composition", async () => {
+    const limiter: AsyncGateLike = new RateLimiter({ rate: 10 });
+    const release = await limiter.acquire({ timeout: 100 });
+    release();
+    assert.throws(() => release(), /twice/);
+  });
+});
@@ -0,0 +1,220 @@
+import { AsyncLocalStorage } from "node:async_hooks";
+import {
+  AbortError,
+  TimeoutError,
+  type AcquireOptions,
+  type Permit,
+} from "./async-gate.ts";
+
+/**
+ * RateLimiter - Token-bucket limiter with the AsyncGate surface
+ *
+ * Limits how OFTEN work starts, not how much runs at once:
+ * - Bucket holds up to `burst` tokens, refilled at `rate` per `interval`
+ * - Waiters are served strictly FIFO; a costly head is never overtaken
+ * - Same timeout/abort semantics and errors as AsyncGate.acquire()
+ *
+ * Satisfies AsyncGateLike, so it plugs into retryWithGate() unchanged.
+ */
+
+export interface RateLimiterOptions<C> {
+  /** Tokens added per interval */
+  rate: number;
+  /** Refill interval in ms (default: 1000) */
+  interval?: number;
+  /** Bucket capacity (default: rate) */
+  burst?: number;
+  store?: AsyncLocalStorage<C>;
+}
+
+export interface RateAcquireOptions extends Pick<AcquireOptions, "timeout" | "signal"> {
+  /** Tokens this call consumes (default: 1) */
+  tokens?: number;
+}
+
+interface WaitNode {
+  resolve: (permit: Permit) => void;
+  reject: (error: Error) => void;
+  prev: WaitNode | null;
+  next: WaitNode | null;
+  settled: boolean;
+  cost: number;
+}
+
+export class RateLimiter<C = unknown> {
+  private readonly rate: number;
+  private readonly interval: number;
+  private readonly burst: number;
+  private readonly store: AsyncLocalStorage<C> | null;
+  private tokens: number;
+  private lastRefill = Date.now();
+  private head: WaitNode | null = null;
+  private tail: WaitNode | null = null;
+  private timer: ReturnType<typeof setTimeout> | undefined;
+
+  constructor(options: RateLimiterOptions<C>) {
+    if (options.rate <= 0) throw new Error("Rate must be > 0");
+    this.rate = options.rate;
+    this.interval = options.interval ?? 1000;
+    this.burst = options.burst ?? options.rate;
+    this.store = options.store ?? null;
+
+    if (this.interval <= 0) throw new Error("Interval must be > 0");
+    if (this.burst < 1) throw new Error("Burst must be >= 1");
+    this.tokens = this.burst;
+  }
+
+  /** Tokens currently available (refilled up to now) */
+  get available(): number {
+    this.refill();
+    return this.tokens;
+  }
+
+  /**
+   * Take tokens from the bucket, waiting in FIFO order if empty.
+   * The returned release is a no-op kept for AsyncGateLike compatibility:
+   * spent tokens only come back through refill.
+   */
+  async acquire(options: RateAcquireOptions = {}): Promise<Permit> {
+    const { timeout, signal, tokens = 1 } = options;
+    if (tokens <= 0 || tokens > this.burst) {
+      throw new Error(`Tokens must be in (0, ${this.burst}]`);
+    }
+    if (signal?.aborted) throw new AbortError();
+
+    this.refill();
+    if (!this.head && this.tokens >= tokens) {
+      this.tokens -= tokens;
+      return createRelease();
+    }
+
+    return new Promise<Permit>((resolve, reject) => {
+      const node: WaitNode = {
+        resolve,
+        reject,
+        prev: null,
+        next: null,
+        settled: false,
+        cost: tokens,
+      };
+      this.enqueue(node);
+
+      let timeoutId: ReturnType<typeof setTimeout> | undefined;
+      const cleanup = () => {
+        this.unlink(node);
+        signal?.removeEventListener("abort", onAbort);
+        if (timeoutId) clearTimeout(timeoutId);
+      };
+      const onAbort = () => {
+        node.reject(new AbortError());
+        this.pump(); // The next head may be cheaper
+      };
+      signal?.addEventListener("abort", onAbort, { once: true });
+
+      if (timeout !== undefined && timeout > 0) {
+        timeoutId = setTimeout(() => {
+          node.reject(new TimeoutError());
+          this.pump();
+        }, timeout);
+      }
+      node.reject = (error) => {
+        if (node.settled) return;
+        node.settled = true;
+        cleanup();
+        reject(error);
+      };
+      const originalResolve = node.resolve;
+      node.resolve = (permit) => {
+        if (node.settled) return;
+        node.settled = true;
+        if (timeoutId) clearTimeout(timeoutId);
+        signal?.removeEventListener("abort", onAbort);
+        originalResolve(permit);
+      };
+
+      this.pump();
+    });
+  }
+
+  /**
+   * Execute function once tokens are granted, in the schedule-time context.
+   * fn receives options.signal (or one that never aborts).
+   */
+  async run<T>(
+    fn: (signal: AbortSignal) => Promise<T>,
+    options: RateAcquireOptions = {}
+  ): Promise<T> {
+    const capturedContext = this.store?.getStore();
+    await this.acquire(options);
+
+    const signal = options.signal ?? new AbortController().signal;
+    const exec = () => fn(signal);
+    if (this.store && capturedContext !== undefined) {
+      return this.store.run(capturedContext, exec);
+    }
+    return exec();
+  }
+
+  // ─── Private ───────────────────────────────────────────────
+
+  private refill(now = Date.now()): void {
+    const earned = ((now - this.lastRefill) * this.rate) / this.interval;
+    this.tokens = Math.min(this.burst, this.tokens + earned);
+    this.lastRefill = now;
+  }
+
+  /** Grant tokens to waiters in order, then sleep until the head can pay. */
+  private pump(): void {
+    if (this.timer) {
+      clearTimeout(this.timer);
+      this.timer = undefined;
+    }
+    this.refill();
+
+    while (this.head && this.tokens >= this.head.cost) {
+      const node = this.head;
+      this.unlink(node);
+      this.tokens -= node.cost;
+      node.resolve(createRelease());
+    }
+
+    if (this.head) {
+      const missing = this.head.cost - this.tokens;
+      const wait = Math.max(1, Math.ceil((missing * this.interval) / this.rate));
+      this.timer = setTimeout(() => this.pump(), wait);
+    }
+  }
+
+  private enqueue(node: WaitNode): void {
+    if (!this.tail) {
+      this.head = this.tail = node;
+    } else {
+      node.prev = this.tail;
+      this.tail.next = node;
+      this.tail = node;
+    }
+  }
+
+  private unlink(node: WaitNode): void {
+    if (node.prev) node.prev.next = node.next;
+    if (node.next) node.next.prev = node.prev;
+    if (this.head === node) this.head = node.next;
+    if (this.tail === node) this.tail = node.prev;
+    node.prev = node.next = null;
+  }
+}
+
+function createRelease(): Permit {
+  let released = false;
+  const release = () => {
+    if (released) throw new Error("Release called twice");
+    released = true;
+  };
+  const dispose = () => {
+    released = true;
+  };
+  return Object.assign(release, {
+    [Symbol.dispose]: dispose,
+    [Symbol.asyncDispose]: async () => dispose(),
+  });
+}
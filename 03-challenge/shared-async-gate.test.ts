@@ -0,0 +1,205 @@
+import assert from "node:assert/strict";
+import { AsyncLocalStorage } from "node:async_hooks";
+import { describe, test } from "node:test";
+import { Worker } from "node:worker_threads";
+import {
+  AbortError,
+  GateClosedError,
+  QueueFullError,
+  TimeoutError,
+} from "./async-gate.ts";
+import { SharedAsyncGate } from "./shared-async-gate.ts";
+
+const delay = (ms: number) => new Promise<void>((r) => setTimeout(r, ms));
+
+// Two gates on one buffer stand in for two threads
+function pair(concurrency: number, maxWaiters?: number) {
+  const buffer = SharedAsyncGate.createBuffer(concurrency, maxWaiters);
+  return [new SharedAsyncGate(buffer), new SharedAsyncGate(buffer)] as const;
+}
+
+describe("SharedAsyncGate", () => {
+  test("gates on one buffer share the permit count", async () => {
+    const [a, b] = pair(2);
+    const first = await a.acquire();
+    const second = await b.acquire();
+    assert.equal(a.getStats().running, 2);
+
+    let granted = false;
+    const third = a.acquire().then((release) => {
+      granted = true;
+      return release;
+    });
+    await delay(10);
+    assert.equal(granted, false);
+    assert.equal(b.getStats().queued, 1);
+
+    second();
+    (await third)();
+    first();
+    assert.equal(b.getStats().running, 0);
+  });
+
+  test("serves waiters FIFO across instances", async () => {
+    const [a, b] = pair(1);
+    const order: string[] = [];
+    const hold = await a.acquire();
+    const waiters = [
+      [a, "a1"],
+      [b, "b1"],
+      [a, "a2"],
+    ].map(([gate, label]) =>
+      (gate as SharedAsyncGate).acquire().then((release) => {
+        order.push(label as string);
+        setImmediate(release);
+      })
+    );
+    await delay(5);
+    hold();
+    await Promise.all(waiters);
+    assert.deepEqual(order, ["a1", "b1", "a2"]);
+  });
+
+  test("timed-out ticket is skipped, not left blocking the queue", async () => {
+    const [a, b] = pair(1);
+    const hold = await a.acquire();
+    const expiring = b.acquire({ timeout: 20 });
+    const patient = a.acquire();
+
+    await assert.rejects(expiring, TimeoutError);
+    hold();
+    (await patient)();
+    assert.equal(a.getStats().queued, 0);
+  });
+
+  test("aborted ticket is skipped", async () => {
+    const [a, b] = pair(1);
+    const hold = await a.acquire();
+    const controller = new AbortController();
+    const aborted = b.acquire({ signal: controller.signal });
+    const patient = a.acquire();
+
+    controller.abort();
+    await assert.rejects(aborted, AbortError);
+    hold();
+    (await patient)();
+  });
+
+  test("close() on one instance rejects waiters on the others", async () => {
+    const [a, b] = pair(1);
+    const hold = await a.acquire();
+    const waiter = b.acquire();
+
+    a.close();
+    await assert.rejects(waiter, GateClosedError);
+    await assert.rejects(() => b.acquire(), GateClosedError);
+    assert.equal(b.closed, true);
+    hold();
+  });
+
+  test("close() aborts the signal of runs on the same instance", async () => {
+    const [a, b] = pair(2);
+    let seen: unknown;
+    const running = a.run(
+      (signal) =>
+        new Promise((_, reject) => {
+          signal.addEventListener("abort", () => {
+            seen = signal.reason;
+            reject(signal.reason);
+          });
+        })
+    );
+    const elsewhere = b.run(() => delay(20));
+    await delay(5);
+
+    a.close();
+    await assert.rejects(running, GateClosedError);
+    assert.ok(seen instanceof GateClosedError);
+    await elsewhere; // Another instance's running work is not aborted
+    assert.equal(a.getStats().running, 0);
+  });
+
+  test("rejects with QueueFullError once the ticket ring is full", async () => {
+    const [a, b] = pair(1, 2);
+    const hold = await a.acquire();
+    const queued = [a.acquire(), b.acquire()];
+
+    await assert.rejects(() => b.acquire(), QueueFullError);
+    hold();
+    for (const waiter of queued) (await waiter)();
+  });
+
+  test("weighted and partial release", async () => {
+    const [a, b] = pair(3);
+    const heavy = await a.acquire({ weight: 3 });
+    const light = b.acquire({ weight: 1 });
+
+    heavy(1);
+    const release = await light;
+    assert.equal(a.getStats().running, 3);
+    heavy();
+    release();
+    assert.throws(() => release(), /twice/);
+    assert.throws(() => new SharedAsyncGate(new SharedArrayBuffer(8)));
+  });
+
+  test("run() restores the calling thread's context", async () => {
+    const store = new AsyncLocalStorage<string>();
+    const buffer = SharedAsyncGate.createBuffer(1);
+    const gate = new SharedAsyncGate(buffer, { store });
+    const hold = await new SharedAsyncGate(buffer).acquire();
+
+    const result = store.run("request-1", () =>
+      gate.run(async () => store.getStore())
+    );
+    await delay(5);
+    store.run("request-2", () => hold());
+    assert.equal(await result, "request-1");
+  });
+
+  test("limits concurrency across worker threads", async () => {
+    const buffer = SharedAsyncGate.createBuffer(2);
+    // [0] in flight now, [1] peak in flight
+    const probe = new Int32Array(new SharedArrayBuffer(8));
+    const moduleUrl = new URL("./shared-async-gate.ts", import.meta.url).href;
+    const source = `
+      const { workerData, parentPort } = require("node:worker_threads");
+      import(workerData.moduleUrl).then(async ({ SharedAsyncGate }) => {
+        const gate = new SharedAsyncGate(workerData.buffer);
+        const probe = workerData.probe;
+        await Promise.all(Array.from({ length: 5 }, () =>
+          gate.run(async () => {
+            const now = Atomics.add(probe, 0, 1) + 1;
+            for (let peak = Atomics.load(probe, 1); now > peak; peak = Atomics.load(probe, 1)) {
+              Atomics.compareExchange(probe, 1, peak, now);
+            }
+            await new Promise((r) => setTimeout(r, 5));
+            Atomics.sub(probe, 0, 1);
+          })
+        ));
+        parentPort.postMessage("done");
+      });
+    `;
+    const workers = Array.from(
+      { length: 3 },
+      () =>
+        new Worker(source, {
+          eval: true,
+          workerData: { buffer, probe, moduleUrl },
+        })
+    );
+    await Promise.all(
+      workers.map(
+        (worker) =>
+          new Promise<void>((resolve, reject) => {
+            worker.once("message", () => resolve());
+            worker.once("error", reject);
+          })
+      )
+    );
+    await Promise.all(workers.map((worker) => worker.terminate()));
+
+    assert.equal(Atomics.load(probe, 1), 2);
+    assert.equal(new SharedAsyncGate(buffer).getStats().running, 0);
+  });
+});
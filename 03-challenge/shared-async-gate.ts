@@ -0,0 +1,321 @@
+import { AsyncLocalStorage } from "node:async_hooks";
+import {
+  AbortError,
+  GateClosedError,
+  QueueFullError,
+  TimeoutError,
+  type AcquireOptions,
+  type Permit,
+} from "./async-gate.ts";
+
+/**
+ * SharedAsyncGate - Cross-thread concurrency limiter over a SharedArrayBuffer
+ *
+ * One buffer, many gates: every worker wraps the same buffer and they all
+ * draw from a single permit counter.
+ *
+ * - Wait list is a ticket ring in the buffer: take a ticket, wait to be served
+ * - Waiting uses Atomics.waitAsync - the event loop is never blocked
+ * - Timeout and abort cancel the ticket; whoever reaches it skips it
+ * - FIFO is best-effort: an arrival can take a slot that frees up while
+ *   nobody is queued yet, even if a waiter on another thread is enqueuing
+ *
+ * Context is per-thread: run() restores the context of the calling thread.
+ */
+
+export interface SharedAsyncGateOptions<C> {
+  store?: AsyncLocalStorage<C>;
+}
+
+export type SharedAcquireOptions = Pick<
+  AcquireOptions,
+  "timeout" | "signal" | "weight"
+>;
+
+export interface SharedGateStats {
+  concurrency: number;
+  /** Units held, across all threads */
+  running: number;
+  /** Tickets not yet served, across all threads (cancelled ones included) */
+  queued: number;
+  closed: boolean;
+}
+
+// Int32 header fields, followed by the ticket ring
+const CONCURRENCY = 0;
+const RUNNING = 1;
+/** Next ticket to hand out */
+const NEXT = 2;
+/** Ticket allowed to take the next permit */
+const SERVING = 3;
+const CLOSED = 4;
+/** Bumped on every change waiters care about; they waitAsync() on it */
+const GENERATION = 5;
+const HEADER = 6;
+
+/** setTimeout() fires immediately for delays above 2^31 - 1 ms */
+const MAX_TIMER_DELAY = 2 ** 31 - 1;
+
+export class SharedAsyncGate<C = unknown> {
+  private readonly state: Int32Array;
+  /** ring[t & mask] === t marks ticket t as cancelled */
+  private readonly ring: Int32Array;
+  private readonly mask: number;
+  private readonly store: AsyncLocalStorage<C> | null;
+  /** Signals handed to in-flight run() calls on this thread - close() aborts them */
+  private readonly inflight = new Set<AbortController>();
+
+  /**
+   * Allocate and initialise a buffer for `concurrency` permits.
+   * Pass it to workers (workerData / postMessage) and wrap it in each.
+   *
+   * @param maxWaiters - Ticket ring size, rounded up to a power of 2 (default: 1024)
+   */
+  static createBuffer(
+    concurrency: number,
+    maxWaiters = 1024
+  ): SharedArrayBuffer {
+    if (!Number.isInteger(concurrency) || concurrency <= 0) {
+      throw new Error("Concurrency must be a positive integer");
+    }
+    if (maxWaiters < 1) throw new Error("maxWaiters must be >= 1");
+    const size = 2 ** Math.ceil(Math.log2(maxWaiters));
+    const buffer = new SharedArrayBuffer(
+      (HEADER + size) * Int32Array.BYTES_PER_ELEMENT
+    );
+    const state = new Int32Array(buffer);
+    state[CONCURRENCY] = concurrency;
+    // Seed each slot with a ticket from the previous lap: nothing starts cancelled
+    for (let i = 0; i < size; i++) state[HEADER + i] = i - size;
+    return buffer;
+  }
+
+  constructor(
+    buffer: SharedArrayBuffer,
+    options: SharedAsyncGateOptions<C> = {}
+  ) {
+    const size = buffer.byteLength / Int32Array.BYTES_PER_ELEMENT - HEADER;
+    if (size < 1 || (size & (size - 1)) !== 0) {
+      throw new Error("Buffer was not created by SharedAsyncGate.createBuffer()");
+    }
+    this.state = new Int32Array(buffer, 0, HEADER);
+    this.ring = new Int32Array(
+      buffer,
+      HEADER * Int32Array.BYTES_PER_ELEMENT,
+      size
+    );
+    this.mask = size - 1;
+    this.store = options.store ?? null;
+  }
+
+  /**
+   * Acquire a slot shared with every gate on the same buffer.
+   * Does NOT capture context - use run() for context-aware execution.
+   */
+  async acquire(options: SharedAcquireOptions = {}): Promise<Permit> {
+    const { timeout, signal, weight = 1 } = options;
+    const concurrency = Atomics.load(this.state, CONCURRENCY);
+    if (!Number.isInteger(weight) || weight <= 0 || weight > concurrency) {
+      throw new Error(`Weight must be an integer in 1..${concurrency}`);
+    }
+    if (this.closed) throw new GateClosedError();
+    if (signal?.aborted) throw new AbortError();
+
+    // Fast path only when nobody holds a ticket
+    if (this.queued === 0 && this.tryReserve(weight)) {
+      return this.createRelease(weight);
+    }
+
+    const ticket = this.takeTicket();
+    const deadline =
+      timeout !== undefined && timeout > 0 ? Date.now() + timeout : Infinity;
+
+    let aborted!: Promise<"aborted">;
+    let onAbort = () => {};
+    if (signal) {
+      aborted = new Promise((resolve) => {
+        onAbort = () => resolve("aborted");
+        signal.addEventListener("abort", onAbort, { once: true });
+      });
+    }
+
+    try {
+      for (;;) {
+        // Read the generation first: any change after this wakes us up
+        const generation = Atomics.load(this.state, GENERATION);
+        if (this.closed) throw this.cancel(ticket, new GateClosedError());
+        if (signal?.aborted) throw this.cancel(ticket, new AbortError());
+        const remaining = deadline - Date.now();
+        if (remaining <= 0) throw this.cancel(ticket, new TimeoutError());
+
+        this.skipCancelled();
+        const serving = Atomics.load(this.state, SERVING);
+        if (serving === ticket && this.tryReserve(weight)) {
+          Atomics.add(this.state, SERVING, 1);
+          this.notify();
+          return this.createRelease(weight);
+        }
+
+        const wait = Atomics.waitAsync(
+          this.state,
+          GENERATION,
+          generation,
+          remaining === Infinity ? undefined : remaining
+        );
+        if (wait.async) {
+          // A pending waitAsync() does not keep the event loop alive - a timer does
+          const keepAlive = setTimeout(
+            () => {},
+            Math.min(remaining, MAX_TIMER_DELAY)
+          );
+          try {
+            await (signal ? Promise.race([wait.value, aborted]) : wait.value);
+          } finally {
+            clearTimeout(keepAlive);
+          }
+        }
+      }
+    } finally {
+      signal?.removeEventListener("abort", onAbort);
+    }
+  }
+
+  /**
+   * Execute function with automatic slot management AND context propagation.
+   * Context is captured before acquire and restored before fn.
+   *
+   * fn receives a signal that aborts when options.signal aborts (with its
+   * reason) or when close() is called on this instance (GateClosedError).
+   * Work already running here is not aborted by close() on another thread.
+   */
+  async run<T>(
+    fn: (signal: AbortSignal) => Promise<T>,
+    options: SharedAcquireOptions = {}
+  ): Promise<T> {
+    const capturedContext = this.store?.getStore();
+    const release = await this.acquire(options);
+
+    const { signal } = options;
+    const controller = new AbortController();
+    const onAbort = () => controller.abort(signal!.reason);
+    if (signal?.aborted) onAbort();
+    else signal?.addEventListener("abort", onAbort, { once: true });
+    if (!this.closed) this.inflight.add(controller);
+    else controller.abort(new GateClosedError());
+    const exec = () => fn(controller.signal);
+
+    try {
+      if (this.store && capturedContext !== undefined) {
+        return await this.store.run(capturedContext, exec);
+      }
+      return await exec();
+    } finally {
+      signal?.removeEventListener("abort", onAbort);
+      this.inflight.delete(controller);
+      release();
+    }
+  }
+
+  /**
+   * Stop accepting work on EVERY gate sharing this buffer.
+   * Waiters on all threads reject with GateClosedError; held permits stay valid.
+   * run() signals on this thread abort; other threads' running work is untouched.
+   */
+  close(): void {
+    for (const controller of this.inflight) controller.abort(new GateClosedError());
+    this.inflight.clear();
+    if (Atomics.exchange(this.state, CLOSED, 1) === 1) return;
+    this.notify();
+  }
+
+  get closed(): boolean {
+    return Atomics.load(this.state, CLOSED) === 1;
+  }
+
+  /**
+   * Snapshot of the shared counters; other threads may change them at any time.
+   */
+  getStats(): SharedGateStats {
+    return {
+      concurrency: Atomics.load(this.state, CONCURRENCY),
+      running: Atomics.load(this.state, RUNNING),
+      queued: this.queued,
+      closed: this.closed,
+    };
+  }
+
+  // ─── Private ───────────────────────────────────────────────
+
+  private get queued(): number {
+    const next = Atomics.load(this.state, NEXT);
+    return (next - Atomics.load(this.state, SERVING)) | 0;
+  }
+
+  private tryReserve(weight: number): boolean {
+    for (;;) {
+      const running = Atomics.load(this.state, RUNNING);
+      if (running + weight > Atomics.load(this.state, CONCURRENCY)) return false;
+      const seen = Atomics.compareExchange(
+        this.state,
+        RUNNING,
+        running,
+        running + weight
+      );
+      if (seen === running) return true;
+    }
+  }
+
+  /** Claim the next ticket, unless the ring has no free slot for it. */
+  private takeTicket(): number {
+    for (;;) {
+      const next = Atomics.load(this.state, NEXT);
+      const queued = (next - Atomics.load(this.state, SERVING)) | 0;
+      if (queued > this.mask) throw new QueueFullError(queued);
+      const seen = Atomics.compareExchange(this.state, NEXT, next, (next + 1) | 0);
+      if (seen === next) return next;
+    }
+  }
+
+  /** Mark the ticket cancelled so it gets skipped, and return the error to throw. */
+  private cancel(ticket: number, error: Error): Error {
+    Atomics.store(this.ring, ticket & this.mask, ticket);
+    this.skipCancelled();
+    this.notify();
+    return error;
+  }
+
+  /** Advance SERVING past cancelled tickets; the CAS makes each skip happen once. */
+  private skipCancelled(): void {
+    for (;;) {
+      const serving = Atomics.load(this.state, SERVING);
+      if (serving === Atomics.load(this.state, NEXT)) return;
+      if (Atomics.load(this.ring, serving & this.mask) !== serving) return;
+      Atomics.compareExchange(this.state, SERVING, serving, (serving + 1) | 0);
+    }
+  }
+
+  private notify(): void {
+    Atomics.add(this.state, GENERATION, 1);
+    Atomics.notify(this.state, GENERATION);
+  }
+
+  private createRelease(weight: number): Permit {
+    let held = weight;
+    const release = (units = held) => {
+      if (held === 0) throw new Error("Release called twice");
+      if (!Number.isInteger(units) || units <= 0 || units > held) {
+        throw new Error(`Cannot release ${units} units, ${held} held`);
+      }
+      held -= units;
+      Atomics.sub(this.state, RUNNING, units);
+      this.notify();
+    };
+    const dispose = () => {
+      if (held > 0) release();
+    };
+    return Object.assign(release, {
+      [Symbol.dispose]: dispose,
+      [Symbol.asyncDispose]: async () => dispose(),
+    });
+  }
+}
@@ -0,0 +1,248 @@
+/**
+ * Hedger Test Suite
+ *
+ * Tests for hedge timing, loser cancellation, derived context, and
+ * gate / circuit composition.
+ */
+
+import assert from "node:assert";
+import { AsyncLocalStorage } from "node:async_hooks";
+import { createHedger, HedgeLostError } from "./hedger.js";
+
+// ─── Test Utilities ─────────────────────────────────────────────────────────
+
+interface TraceContext {
+  traceId: string;
+  attemptId?: string;
+}
+
+const store = new AsyncLocalStorage<TraceContext>();
+
+const deriveContext = (parent: TraceContext, { attempt }: { attempt: number }) => ({
+  ...parent,
+  attemptId: `${parent.traceId}.${attempt}`,
+});
+
+function sleep(ms: number): Promise<void> {
+  return new Promise((resolve) => setTimeout(resolve, ms));
+}
+
+/** Work that only settles when its signal fires */
+function untilAborted(signal: AbortSignal): Promise<never> {
+  return new Promise((_, reject) => {
+    signal.addEventListener("abort", () => reject(signal.reason));
+  });
+}
+
+// Minimal AsyncGate mock: counts held slots, no queueing
+class MockAsyncGate {
+  running = 0;
+  acquisitions = 0;
+
+  async acquire(options?: { signal?: AbortSignal }): Promise<() => void> {
+    if (options?.signal?.aborted) throw new Error("Aborted");
+    this.running++;
+    this.acquisitions++;
+    return () => {
+      this.running--;
+    };
+  }
+}
+
+// ─── Tests ──────────────────────────────────────────────────────────────────
+
+const tests: Array<{ name: string; fn: () => Promise<void> }> = [];
+function test(name: string, fn: () => Promise<void>) {
+  tests.push({ name, fn });
+}
+
+// ─── Hedge Timing Tests ─────────────────────────────────────────────────────
+
+test("fast primary sends no hedge", async () => {
+  const hedger = createHedger(store, { initialDelay: 50 });
+  let calls = 0;
+
+  const result = await hedger.run(async () => {
+    calls++;
+    return "ok";
+  });
+
+  assert.strictEqual(result, "ok");
+  assert.strictEqual(calls, 1);
+  assert.strictEqual(hedger.getStats().hedges, 0);
+});
+
+test("slow primary is hedged and the loser is aborted", async () => {
+  const hedger = createHedger(store, { initialDelay: 20, deriveContext });
+  const reasons: unknown[] = [];
+
+  const winner = await store.run({ traceId: "req" }, () =>
+    hedger.run(async (signal) => {
+      const attemptId = store.getStore()?.attemptId;
+      if (attemptId === "req.1") {
+        signal.addEventListener("abort", () => reasons.push(signal.reason));
+        await untilAborted(signal);
+      }
+      return attemptId;
+    })
+  );
+
+  // The derived context shows which attempt won
+  assert.strictEqual(winner, "req.2");
+  assert.strictEqual(reasons.length, 1);
+  assert.ok(reasons[0] instanceof HedgeLostError);
+  assert.strictEqual((reasons[0] as HedgeLostError).winner, 2);
+
+  const stats = hedger.getStats();
+  assert.strictEqual(stats.hedges, 1);
+  assert.strictEqual(stats.hedgeWins, 1);
+});
+
+test("hedge delay follows the observed percentile", async () => {
+  const hedger = createHedger(store, {
+    initialDelay: 500,
+    minSamples: 5,
+    window: 5,
+  });
+
+  assert.strictEqual(hedger.getStats().delay, 500);
+  for (let i = 0; i < 5; i++) {
+    await hedger.run(() => sleep(20));
+  }
+
+  const { delay } = hedger.getStats();
+  assert.ok(delay >= 15 && delay < 100, `delay ${delay} should track ~20ms`);
+});
+
+test("hedged slow requests still count as slow", async () => {
+  const hedger = createHedger(store, {
+    initialDelay: 20,
+    minSamples: 10,
+    window: 20,
+  });
+
+  // 10% of requests have a primary that only a hedge beats; hedges take ~2ms
+  for (let i = 0; i < 40; i++) {
+    let calls = 0;
+    const slow = i % 10 === 9;
+    await hedger.run((signal) =>
+      slow && calls++ === 0 ? untilAborted(signal) : sleep(2)
+    );
+  }
+
+  const { delay, hedgeWins } = hedger.getStats();
+  assert.strictEqual(hedgeWins, 4);
+  assert.ok(delay >= 20, `delay ${delay} should include the hedged requests`);
+});
+
+test("failed attempt launches the next hedge at once", async () => {
+  const hedger = createHedger(store, { initialDelay: 1000, maxAttempts: 3 });
+  let calls = 0;
+  const started = Date.now();
+
+  try {
+    await hedger.run(async () => {
+      calls++;
+      throw new Error(`Fail ${calls}`);
+    });
+    assert.fail("Should have thrown");
+  } catch (error) {
+    assert.ok(error instanceof Error);
+    assert.strictEqual(error.message, "Fail 3");
+  }
+
+  assert.strictEqual(calls, 3);
+  assert.ok(Date.now() - started < 500, "No waiting for the hedge delay");
+});
+
+// ─── Composition Tests ──────────────────────────────────────────────────────
+
+test("hedges hold real gate capacity", async () => {
+  const gate = new MockAsyncGate();
+  const hedger = createHedger(store, { initialDelay: 10, gate });
+  let peak = 0;
+
+  await hedger.run(async (signal) => {
+    peak = Math.max(peak, gate.running);
+    if (gate.acquisitions === 1) await untilAborted(signal);
+    await sleep(5);
+    peak = Math.max(peak, gate.running);
+  });
+
+  assert.strictEqual(gate.acquisitions, 2);
+  assert.strictEqual(peak, 2);
+  await sleep(0); // Loser releases once its rejection settles
+  assert.strictEqual(gate.running, 0);
+});
+
+test("no hedge while the circuit is not CLOSED", async () => {
+  const circuit = { state: "HALF_OPEN" as const };
+  const hedger = createHedger(store, { initialDelay: 10, circuit });
+  let calls = 0;
+
+  await hedger.run(async () => {
+    calls++;
+    await sleep(40);
+  });
+
+  assert.strictEqual(calls, 1);
+  const stats = hedger.getStats();
+  assert.strictEqual(stats.hedges, 0);
+  assert.strictEqual(stats.suppressed, 1);
+});
+
+// ─── Cancellation Tests ─────────────────────────────────────────────────────
+
+test("caller abort rejects and aborts every attempt", async () => {
+  const hedger = createHedger(store, { initialDelay: 10 });
+  const controller = new AbortController();
+  const aborted: AbortSignal[] = [];
+
+  setTimeout(() => controller.abort(new Error("caller gave up")), 30);
+
+  try {
+    await hedger.run(
+      (signal) => {
+        signal.addEventListener("abort", () => aborted.push(signal));
+        return untilAborted(signal);
+      },
+      { signal: controller.signal }
+    );
+    assert.fail("Should have thrown");
+  } catch (error) {
+    assert.ok(error instanceof Error);
+    assert.strictEqual(error.message, "caller gave up");
+  }
+  assert.strictEqual(aborted.length, 2);
+});
+
+// ─── Test Runner ────────────────────────────────────────────────────────────
+
+async function runTests() {
+  console.log("\n🧪 Hedger Test Suite\n");
+  console.log("─".repeat(60));
+
+  let passed = 0;
+  let failed = 0;
+
+  for (const { name, fn } of tests) {
+    try {
+      await fn();
+      console.log(`  ✓ ${name}`);
+      passed++;
+    } catch (error) {
+      console.log(`  ✗ ${name}`);
+      console.log(`    ${error instanceof Error ? error.message : error}`);
+      failed++;
+    }
+  }
+
+  console.log("─".repeat(60));
+  console.log(`\n  ${passed} passed, ${failed} failed\n`);
+
+  if (failed > 0) {
+    process.exit(1);
+  }
+}
+
+runTests().catch(console.error);
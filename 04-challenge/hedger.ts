@@ -0,0 +1,280 @@
+/**
+ * Hedger - Backup requests for tail latency with preserved causality
+ *
+ * DESIGN DECISIONS:
+ * - Hedge after the observed p95: a request slower than 95% of its peers
+ *   gets a backup; until enough samples exist, the initial delay applies
+ * - Latency is sampled per request (run() to first success), not per
+ *   winning attempt: a hedged slow request still counts as slow
+ * - First success wins; every other attempt's signal aborts (HedgeLostError)
+ * - Hedges use real capacity: with a gate, every attempt holds its own slot
+ * - Hedges never go to a struggling dependency: no hedge unless the circuit
+ *   is CLOSED
+ * - Derived Causality: each attempt runs in a context derived like the
+ *   Retrier's, so traces show which attempt won
+ *
+ * @module day-4/hedger
+ */
+
+import { AsyncLocalStorage } from "node:async_hooks";
+import type { AsyncGateLike, ContextDeriver, RetryContext } from "./retrier.js";
+
+// ─── Types ──────────────────────────────────────────────────────────────────
+
+/** Structural view of Day-05 CircuitBreaker */
+export interface CircuitStateLike {
+  readonly state: "CLOSED" | "OPEN" | "HALF_OPEN";
+}
+
+export interface HedgerOptions<C> {
+  /** Total attempts, primary included (default: 2) */
+  maxAttempts?: number;
+  /** Latency percentile that triggers a hedge, 0-1 (default: 0.95) */
+  percentile?: number;
+  /** Hedge delay in ms until minSamples latencies are known (default: 100) */
+  initialDelay?: number;
+  /** Successful latencies needed before the percentile is used (default: 20) */
+  minSamples?: number;
+  /** Most recent latencies kept (default: 100) */
+  window?: number;
+  /** Every attempt holds a slot of this gate */
+  gate?: AsyncGateLike<C>;
+  /** Hedges are only sent while this circuit is CLOSED */
+  circuit?: CircuitStateLike;
+  /** Function to derive each attempt's context from the parent */
+  deriveContext?: ContextDeriver<C>;
+}
+
+export interface HedgeRunOptions {
+  signal?: AbortSignal;
+}
+
+export interface HedgerStats {
+  /** run() calls */
+  requests: number;
+  /** Backup attempts launched */
+  hedges: number;
+  /** Runs won by a backup attempt */
+  hedgeWins: number;
+  /** Hedges skipped because the circuit was not CLOSED */
+  suppressed: number;
+  /** Current hedge delay in ms */
+  delay: number;
+}
+
+// ─── Errors ─────────────────────────────────────────────────────────────────
+
+/** Abort reason handed to every attempt that did not win */
+export class HedgeLostError extends Error {
+  readonly winner: number;
+
+  constructor(winner: number) {
+    super(`Hedge lost to attempt ${winner}`);
+    this.name = "HedgeLostError";
+    this.winner = winner;
+  }
+}
+
+// ─── Hedger ─────────────────────────────────────────────────────────────────
+
+export class Hedger<C = unknown> {
+  private readonly store: AsyncLocalStorage<C>;
+  private readonly maxAttempts: number;
+  private readonly percentile: number;
+  private readonly initialDelay: number;
+  private readonly minSamples: number;
+  private readonly window: number;
+  private readonly gate: AsyncGateLike<C> | null;
+  private readonly circuit: CircuitStateLike | null;
+  private readonly deriveContext: ContextDeriver<C> | null;
+
+  /** Ring of recent successful latencies */
+  private readonly samples: number[] = [];
+  private nextSample = 0;
+  private requests = 0;
+  private hedges = 0;
+  private hedgeWins = 0;
+  private suppressed = 0;
+
+  constructor(store: AsyncLocalStorage<C>, options: HedgerOptions<C> = {}) {
+    this.store = store;
+    this.maxAttempts = options.maxAttempts ?? 2;
+    this.percentile = options.percentile ?? 0.95;
+    this.initialDelay = options.initialDelay ?? 100;
+    this.minSamples = options.minSamples ?? 20;
+    this.window = options.window ?? 100;
+    this.gate = options.gate ?? null;
+    this.circuit = options.circuit ?? null;
+    this.deriveContext = options.deriveContext ?? null;
+
+    if (this.maxAttempts < 1) {
+      throw new Error("maxAttempts must be >= 1");
+    }
+    if (!(this.percentile > 0 && this.percentile <= 1)) {
+      throw new Error("percentile must be in (0, 1]");
+    }
+    if (this.minSamples < 1 || this.window < this.minSamples) {
+      throw new Error("window must be >= minSamples >= 1");
+    }
+  }
+
+  /**
+   * Execute fn, sending a backup attempt each time the current delay passes
+   * without an answer.
+   *
+   * Context Flow:
+   * 1. Parent context captured at schedule-time (this call)
+   * 2. Each attempt runs in a child context derived from it
+   *
+   * Settles with the first success. A failed attempt launches the next
+   * hedge at once; if every attempt fails, the last error is thrown.
+   * The time from this call to the first success is the latency sample.
+   */
+  run<T>(
+    fn: (signal: AbortSignal) => Promise<T>,
+    options: HedgeRunOptions = {}
+  ): Promise<T> {
+    const { signal } = options;
+    if (signal?.aborted) return Promise.reject(signal.reason);
+
+    // STEP 1: Capture parent context at schedule-time
+    const parentContext = this.store.getStore();
+    const startedAt = performance.now();
+    const delay = this.currentDelay();
+    this.requests++;
+
+    return new Promise<T>((resolve, reject) => {
+      const controllers: AbortController[] = [];
+      let pending = 0;
+      let launched = 0;
+      let done = false;
+      let timer: ReturnType<typeof setTimeout> | undefined;
+
+      const finish = () => {
+        done = true;
+        clearTimeout(timer);
+        signal?.removeEventListener("abort", onAbort);
+      };
+      const onAbort = () => {
+        finish();
+        for (const controller of controllers) controller.abort(signal!.reason);
+        reject(signal!.reason);
+      };
+      signal?.addEventListener("abort", onAbort, { once: true });
+
+      /** Launch the next attempt; false when none may be sent */
+      const launch = (): boolean => {
+        if (launched === this.maxAttempts) return false;
+        if (launched > 0 && this.circuit && this.circuit.state !== "CLOSED") {
+          this.suppressed++;
+          return false;
+        }
+
+        const attempt = ++launched;
+        if (attempt > 1) this.hedges++;
+        const controller = new AbortController();
+        controllers.push(controller);
+        pending++;
+
+        // STEP 2: Derive child context for this attempt
+        const retryCtx: RetryContext = {
+          attempt,
+          maxAttempts: this.maxAttempts,
+          isFinal: attempt === this.maxAttempts,
+        };
+        const childContext =
+          parentContext !== undefined && this.deriveContext
+            ? this.deriveContext(parentContext, retryCtx)
+            : parentContext;
+        const exec = () => this.attempt(fn, controller.signal);
+
+        // STEP 3: Execute in derived context
+        const result =
+          childContext !== undefined ? this.store.run(childContext, exec) : exec();
+
+        result.then(
+          (value) => {
+            pending--;
+            if (done) return;
+            finish();
+            this.record(performance.now() - startedAt);
+            if (attempt > 1) this.hedgeWins++;
+            for (const other of controllers) {
+              if (other !== controller) other.abort(new HedgeLostError(attempt));
+            }
+            resolve(value);
+          },
+          (error) => {
+            pending--;
+            if (done) return;
+            // Fail over to the next hedge now; give up once nothing is left
+            if (!launch() && pending === 0) {
+              finish();
+              reject(error);
+            }
+          }
+        );
+
+        // Hedge after `delay` without an answer
+        clearTimeout(timer);
+        if (launched < this.maxAttempts) {
+          timer = setTimeout(() => {
+            if (!done) launch();
+          }, delay);
+        }
+        return true;
+      };
+
+      launch();
+    });
+  }
+
+  getStats(): HedgerStats {
+    return {
+      requests: this.requests,
+      hedges: this.hedges,
+      hedgeWins: this.hedgeWins,
+      suppressed: this.suppressed,
+      delay: this.currentDelay(),
+    };
+  }
+
+  // ─── Private ──────────────────────────────────────────────────────
+
+  /** One attempt: gate slot (if any), then fn */
+  private async attempt<T>(
+    fn: (signal: AbortSignal) => Promise<T>,
+    signal: AbortSignal
+  ): Promise<T> {
+    const release = this.gate ? await this.gate.acquire({ signal }) : null;
+    try {
+      return await fn(signal);
+    } finally {
+      release?.();
+    }
+  }
+
+  private record(latency: number): void {
+    this.samples[this.nextSample] = latency;
+    this.nextSample = (this.nextSample + 1) % this.window;
+  }
+
+  private currentDelay(): number {
+    if (this.samples.length < this.minSamples) return this.initialDelay;
+    const sorted = [...this.samples].sort((a, b) => a - b);
+    const index = Math.min(
+      sorted.length - 1,
+      Math.ceil(this.percentile * sorted.length) - 1
+    );
+    return Math.round(sorted[index]);
+  }
+}
+
+// ─── Factory ────────────────────────────────────────────────────────────────
+
+export function createHedger<C>(
+  store: AsyncLocalStorage<C>,
+  options?: HedgerOptions<C>
+): Hedger<C> {
+  return new Hedger(store, options);
+}
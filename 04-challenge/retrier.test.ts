@@ -8,6 +8,7 @@ import assert from "node:assert";
 import { AsyncLocalStorage } from "node:async_hooks";
 import {
   createRetrier,
+  DeadlineExceededError,
   RetryAbortedError,
   RetryExhaustedError,
   retryWithGate
@@ -19,6 +20,7 @@ interface TraceContext {
   traceId: string;
   attemptId?: string;
   attempt?: number;
+  deadline?: number;
 }
 
 const store = new AsyncLocalStorage<TraceContext>();
@@ -244,6 +246,52 @@ test("aborts during backoff", async () => {
   }
 });
 
+test("keeps the abort reason as cause", async () => {
+  const retrier = createRetrier(store, { maxAttempts: 3, baseDelay: 1000 });
+  const controller = new AbortController();
+  const reason = new Error("client disconnected");
+
+  setTimeout(() => controller.abort(reason), 20);
+
+  try {
+    await retrier.run(
+      async () => {
+        throw new Error("Fail");
+      },
+      { signal: controller.signal }
+    );
+    assert.fail("Should have thrown");
+  } catch (error) {
+    assert.ok(error instanceof RetryAbortedError);
+    assert.strictEqual(error.cause, reason);
+  }
+});
+
+test("hands the caller's signal to the work and stops on a mid-attempt abort", async () => {
+  const retrier = createTestRetrier({ maxAttempts: 3 });
+  const controller = new AbortController();
+  let callCount = 0;
+
+  setTimeout(() => controller.abort(new Error("stop")), 20);
+
+  try {
+    await retrier.run(
+      (signal) => {
+        callCount++;
+        return new Promise((_, reject) => {
+          signal.addEventListener("abort", () => reject(signal.reason));
+        });
+      },
+      { signal: controller.signal }
+    );
+    assert.fail("Should have thrown");
+  } catch (error) {
+    assert.ok(error instanceof RetryAbortedError);
+    assert.strictEqual(error.phase, "execution");
+    assert.strictEqual(callCount, 1);
+  }
+});
+
 // ─── Gate Composition Tests ─────────────────────────────────────────────────
 
 test("holds gate slot during entire retry sequence", async () => {
@@ -375,6 +423,89 @@ test("respects isRetryable predicate", async () => {
   }
 });
 
+// ─── Deadline Tests ─────────────────────────────────────────────────────────
+
+test("skips a backoff that would end past the deadline", async () => {
+  const retrier = createRetrier(store, { maxAttempts: 5, baseDelay: 200, jitter: 0 });
+  let callCount = 0;
+  const start = Date.now();
+
+  try {
+    await retrier.run(
+      async () => {
+        callCount++;
+        throw new Error("Fail");
+      },
+      { deadline: start + 100 }
+    );
+    assert.fail("Should have thrown");
+  } catch (error) {
+    assert.ok(error instanceof DeadlineExceededError);
+    assert.strictEqual((error.cause as Error).message, "Fail");
+    assert.strictEqual(callCount, 1);
+    assert.ok(Date.now() - start < 100, "Should not sleep the backoff");
+  }
+});
+
+test("inherits the deadline from the parent context", async () => {
+  const retrier = createRetrier(store, {
+    maxAttempts: 5,
+    baseDelay: 10,
+    jitter: 0,
+    getDeadline: (context) => context.deadline,
+    deriveContext: (parent, retryCtx) => ({ ...parent, attempt: retryCtx.attempt }),
+  });
+  const deadline = Date.now() + 25;
+  const seen: Array<number | undefined> = [];
+
+  try {
+    await store.run({ traceId: "deadline", deadline }, async () => {
+      return retrier.run(
+        async () => {
+          seen.push(store.getStore()?.deadline);
+          throw new Error("Fail");
+        },
+        { deadline: deadline + 10_000 } // Looser explicit deadline loses
+      );
+    });
+    assert.fail("Should have thrown");
+  } catch (error) {
+    assert.ok(error instanceof DeadlineExceededError);
+    assert.strictEqual(error.deadline, deadline);
+    assert.ok(seen.length >= 1 && seen.length < 5);
+    assert.ok(seen.every((d) => d === deadline), "Child contexts carry the deadline");
+  }
+});
+
+test("hands a tighter explicit deadline to attempts and nested calls", async () => {
+  const retrier = createRetrier(store, {
+    getDeadline: (context) => context.deadline,
+    setDeadline: (context, deadline) => ({ ...context, deadline }),
+  });
+  const outer = Date.now() + 10_000;
+  const tight = Date.now() + 5_000;
+
+  const seen = await store.run({ traceId: "nested", deadline: outer }, () =>
+    retrier.run(async () => store.getStore()?.deadline, { deadline: tight })
+  );
+
+  assert.strictEqual(seen, tight);
+});
+
+test("makes no attempt once the deadline has passed", async () => {
+  const retrier = createTestRetrier();
+  let callCount = 0;
+
+  try {
+    await retrier.run(async () => callCount++, { deadline: Date.now() - 1 });
+    assert.fail("Should have thrown");
+  } catch (error) {
+    assert.ok(error instanceof DeadlineExceededError);
+    assert.strictEqual(error.cause, undefined);
+    assert.strictEqual(callCount, 0);
+  }
+});
+
 // ─── No Context Tests ───────────────────────────────────────────────────────
 
 test("works without parent context", async () => {
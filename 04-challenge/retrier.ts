@@ -5,6 +5,9 @@
  * - Derived Causality: Each attempt gets unique child context derived from parent
  * - Hold-Slot-During-Backoff: Gate slot held through entire retry sequence
  * - Context captured at schedule-time, derived at each execution-time
+ * - Deadline-bounded: no attempt starts, and no backoff is slept, past the deadline
+ * - Cooperative cancellation: fn receives the caller's signal, so the abort
+ *   that cancels a backoff also reaches work still running
  *
  * @module day-4/retrier
  */
@@ -39,10 +42,16 @@ export interface RetrierOptions<C> {
   deriveContext?: ContextDeriver<C>;
   /** Predicate to determine if error is retryable (default: all errors) */
   isRetryable?: (error: unknown) => boolean;
+  /** Read the absolute deadline (epoch ms) carried by the active context */
+  getDeadline?: (context: C) => number | undefined;
+  /** Write a tighter deadline into the context attempts run in */
+  setDeadline?: (context: C, deadline: number) => C;
 }
 
 export interface RunOptions {
   signal?: AbortSignal;
+  /** Absolute deadline (epoch ms); the context deadline still applies, tighter wins */
+  deadline?: number;
 }
 
 // ─── Errors ─────────────────────────────────────────────────────────────────
@@ -64,14 +73,27 @@ export class RetryAbortedError extends Error {
   readonly attempt: number;
   readonly phase: "backoff" | "execution";
 
-  constructor(attempt: number, phase: "backoff" | "execution") {
-    super(`Retry aborted during ${phase} at attempt ${attempt}`);
+  /** `cause` is the abort signal's reason */
+  constructor(attempt: number, phase: "backoff" | "execution", cause?: unknown) {
+    super(`Retry aborted during ${phase} at attempt ${attempt}`, { cause });
     this.name = "RetryAbortedError";
     this.attempt = attempt;
     this.phase = phase;
   }
 }
 
+export class DeadlineExceededError extends Error {
+  /** The deadline that could not be met (epoch ms) */
+  readonly deadline: number;
+
+  /** `cause` is the last failure seen before giving up, if any */
+  constructor(deadline: number, cause?: unknown) {
+    super(`Deadline ${new Date(deadline).toISOString()} exceeded`, { cause });
+    this.name = "DeadlineExceededError";
+    this.deadline = deadline;
+  }
+}
+
 // ─── Helpers ────────────────────────────────────────────────────────────────
 
 function calculateDelay(
@@ -121,6 +143,8 @@ export class Retrier<C = unknown> {
   private readonly jitter: number;
   private readonly deriveContext: ContextDeriver<C> | null;
   private readonly isRetryable: (error: unknown) => boolean;
+  private readonly getDeadline: ((context: C) => number | undefined) | null;
+  private readonly setDeadline: ((context: C, deadline: number) => C) | null;
 
   constructor(store: AsyncLocalStorage<C>, options: RetrierOptions<C> = {}) {
     this.store = store;
@@ -130,6 +154,8 @@ export class Retrier<C = unknown> {
     this.jitter = Math.max(0, Math.min(1, options.jitter ?? 0.1));
     this.deriveContext = options.deriveContext ?? null;
     this.isRetryable = options.isRetryable ?? (() => true);
+    this.getDeadline = options.getDeadline ?? null;
+    this.setDeadline = options.setDeadline ?? null;
 
     if (this.maxAttempts < 1) {
       throw new Error("maxAttempts must be >= 1");
@@ -143,19 +169,45 @@ export class Retrier<C = unknown> {
    * 1. Parent context captured at schedule-time (this call)
    * 2. Child context derived at each attempt execution-time
    * 3. fn() runs in derived child context
+   *
+   * Deadline: the tighter of options.deadline and the parent context's
+   * deadline. A tighter explicit deadline is written into the parent
+   * (see setDeadline) before deriving, so attempts and nested calls inherit it.
+   *
+   * Cancellation: fn receives options.signal (or one that never aborts);
+   * an abort mid-attempt ends the sequence instead of being retried.
    */
-  async run<T>(fn: () => Promise<T>, options: RunOptions = {}): Promise<T> {
+  async run<T>(
+    fn: (signal: AbortSignal) => Promise<T>,
+    options: RunOptions = {}
+  ): Promise<T> {
     const { signal } = options;
+    const taskSignal = signal ?? new AbortController().signal;
+    const exec = () => fn(taskSignal);
 
     // STEP 1: Capture parent context at schedule-time
-    const parentContext = this.store.getStore();
+    const capturedContext = this.store.getStore();
+    const inherited =
+      capturedContext !== undefined && this.getDeadline
+        ? this.getDeadline(capturedContext)
+        : undefined;
+    const deadline = Math.min(options.deadline ?? Infinity, inherited ?? Infinity);
+    const parentContext =
+      capturedContext !== undefined &&
+      this.setDeadline &&
+      deadline < (inherited ?? Infinity)
+        ? this.setDeadline(capturedContext, deadline)
+        : capturedContext;
 
     let lastError: unknown;
 
     for (let attempt = 1; attempt <= this.maxAttempts; attempt++) {
       // Check abort before each attempt
       if (signal?.aborted) {
-        throw new RetryAbortedError(attempt, "execution");
+        throw new RetryAbortedError(attempt, "execution", signal.reason);
+      }
+      if (Date.now() >= deadline) {
+        throw new DeadlineExceededError(deadline, lastError);
       }
 
       const retryCtx: RetryContext = {
@@ -174,13 +226,18 @@ export class Retrier<C = unknown> {
         // STEP 3: Execute in derived context
         const result =
           childContext !== undefined
-            ? await this.store.run(childContext, fn)
-            : await fn();
+            ? await this.store.run(childContext, exec)
+            : await exec();
 
         return result;
       } catch (error) {
         lastError = error;
 
+        // Aborted mid-attempt: the failure is the abort, not the work
+        if (signal?.aborted) {
+          throw new RetryAbortedError(attempt, "execution", signal.reason);
+        }
+
         // Don't retry if error is not retryable
         if (!this.isRetryable(error)) {
           throw error;
@@ -199,11 +256,16 @@ export class Retrier<C = unknown> {
           this.jitter
         );
 
+        // Waking up past the deadline would only fail later
+        if (Date.now() + delay >= deadline) {
+          throw new DeadlineExceededError(deadline, lastError);
+        }
+
         // STEP 4: Wait (slot held during this time if using withGate)
         try {
           await sleep(delay, signal);
-        } catch {
-          throw new RetryAbortedError(attempt, "backoff");
+        } catch (reason) {
+          throw new RetryAbortedError(attempt, "backoff", reason);
         }
       }
     }
@@ -217,6 +279,7 @@ export class Retrier<C = unknown> {
 export interface AcquireOptions {
   timeout?: number;
   signal?: AbortSignal;
+  deadline?: number;
 }
 
 export interface AsyncGateLike<C = unknown> {
@@ -235,17 +298,17 @@ export interface AsyncGateLike<C = unknown> {
 export async function retryWithGate<T, C>(
   retrier: Retrier<C>,
   gate: AsyncGateLike<C>,
-  fn: () => Promise<T>,
+  fn: (signal: AbortSignal) => Promise<T>,
   options: AcquireOptions & RunOptions = {}
 ): Promise<T> {
-  const { timeout, signal } = options;
+  const { timeout, signal, deadline } = options;
 
   // STEP 1: Acquire slot ONCE (may queue)
-  const release = await gate.acquire({ timeout, signal });
+  const release = await gate.acquire({ timeout, signal, deadline });
 
   try {
     // STEP 2: Run entire retry sequence while holding slot
-    return await retrier.run(fn, { signal });
+    return await retrier.run(fn, { signal, deadline });
   } finally {
     // STEP 3: Release slot only after success or exhaustion
     release();
@@ -5,9 +5,11 @@
  */
 
 import assert from "node:assert";
+import { AsyncLocalStorage } from "node:async_hooks";
 import {
   CircuitOpenError,
   createCircuitBreaker,
+  DeadlineExceededError,
   isCircuitOpenError,
   respectCircuit
 } from "./circuit-breaker.js";
@@ -258,6 +260,108 @@ test("tracks total rejections", async () => {
   assert.strictEqual(circuit.getStats().totalRejections, 3);
 });
 
+// ─── Deadlines ──────────────────────────────────────────────────────────────
+
+test("rejects expired deadline without counting a failure", async () => {
+  const circuit = createCircuitBreaker({ failureThreshold: 1 });
+  let executed = false;
+
+  try {
+    await circuit.run(async () => {
+      executed = true;
+    }, { deadline: Date.now() - 1 });
+    assert.fail("Should have thrown");
+  } catch (error) {
+    assert.ok(error instanceof DeadlineExceededError);
+  }
+
+  assert.strictEqual(executed, false);
+  assert.strictEqual(circuit.state, "CLOSED");
+  assert.strictEqual(circuit.getStats().totalRejections, 0);
+});
+
+test("expired deadline does not spend the HALF_OPEN probe", async () => {
+  const deadlines = new AsyncLocalStorage<number>();
+  const circuit = createCircuitBreaker({
+    failureThreshold: 1,
+    resetTimeout: 10,
+    store: deadlines,
+    getDeadline: (deadline) => deadline,
+  });
+
+  try {
+    await circuit.run(async () => {
+      throw new Error("Fail");
+    });
+  } catch { }
+  await sleep(20);
+
+  // Context deadline is tighter than the explicit one
+  await deadlines.run(Date.now() - 1, async () => {
+    try {
+      await circuit.run(async () => "late", { deadline: Date.now() + 1000 });
+      assert.fail("Should have thrown");
+    } catch (error) {
+      assert.ok(error instanceof DeadlineExceededError);
+    }
+  });
+
+  assert.strictEqual(await circuit.run(async () => "probe"), "probe");
+  assert.strictEqual(circuit.state, "CLOSED");
+});
+
+test("hands a tighter explicit deadline to nested calls", async () => {
+  const deadlines = new AsyncLocalStorage<number>();
+  const circuit = createCircuitBreaker({
+    store: deadlines,
+    getDeadline: (deadline) => deadline,
+    setDeadline: (_, deadline) => deadline,
+  });
+  const outer = Date.now() + 10_000;
+  const tight = Date.now() + 5_000;
+
+  const seen = await deadlines.run(outer, () =>
+    circuit.run(async () => deadlines.getStore(), { deadline: tight })
+  );
+  assert.strictEqual(seen, tight);
+
+  // A looser explicit deadline leaves the context alone
+  const kept = await deadlines.run(tight, () =>
+    circuit.run(async () => deadlines.getStore(), { deadline: outer })
+  );
+  assert.strictEqual(kept, tight);
+});
+
+// ─── Caller Signal ──────────────────────────────────────────────────────────
+
+test("passes the caller's signal to fn", async () => {
+  const circuit = createCircuitBreaker();
+  const controller = new AbortController();
+
+  const seen = await circuit.run(async (signal) => signal, {
+    signal: controller.signal,
+  });
+  assert.strictEqual(seen, controller.signal);
+});
+
+test("failure caused by the caller's abort is not counted", async () => {
+  const circuit = createCircuitBreaker({ failureThreshold: 1 });
+  const controller = new AbortController();
+
+  const pending = circuit.run(
+    (signal) =>
+      new Promise((_, reject) => {
+        signal.addEventListener("abort", () => reject(signal.reason));
+      }),
+    { signal: controller.signal }
+  );
+  controller.abort(new Error("caller gave up"));
+
+  await assert.rejects(pending, /caller gave up/);
+  assert.strictEqual(circuit.state, "CLOSED");
+  assert.strictEqual(circuit.getStats().failures, 0);
+});
+
 // ─── Fail-Before-Gate Composition ───────────────────────────────────────────
 
 test("does not acquire gate slot when circuit is OPEN", async () => {
@@ -7,15 +7,20 @@
  * - Circuit overrides retry: CircuitOpenError is non-retryable
  * - Rejection is a causality event: traceable, not silent
  * - Half-open single probe: no FIFO bypass
+ * - Expired deadlines are rejected before any state is touched
+ * - fn receives the caller's signal; failing because the caller aborted is
+ *   not a downstream failure
  *
  * @module day-5/circuit-breaker
  */
 
+import { AsyncLocalStorage } from "node:async_hooks";
+
 // ─── Types ──────────────────────────────────────────────────────────────────
 
 export type CircuitState = "CLOSED" | "OPEN" | "HALF_OPEN";
 
-export interface CircuitBreakerOptions {
+export interface CircuitBreakerOptions<C = unknown> {
   /** Number of failures before opening (default: 5) */
   failureThreshold?: number;
   /** Milliseconds before attempting half-open (default: 30000) */
@@ -24,6 +29,19 @@ export interface CircuitBreakerOptions {
   successThreshold?: number;
   /** Predicate to determine if error counts as failure (default: all errors) */
   isFailure?: (error: unknown) => boolean;
+  /** Context carrying the caller's deadline (only read for deadlines) */
+  store?: AsyncLocalStorage<C>;
+  /** Read the absolute deadline (epoch ms) carried by the active context */
+  getDeadline?: (context: C) => number | undefined;
+  /** Write a tighter deadline into the context fn runs in */
+  setDeadline?: (context: C, deadline: number) => C;
+}
+
+export interface RunOptions {
+  /** Absolute deadline (epoch ms); the context deadline still applies, tighter wins */
+  deadline?: number;
+  /** Caller's signal - passed to fn */
+  signal?: AbortSignal;
 }
 
 export interface CircuitStats {
@@ -52,13 +70,27 @@ export class CircuitOpenError extends Error {
   }
 }
 
+export class DeadlineExceededError extends Error {
+  /** The deadline that could not be met (epoch ms) */
+  readonly deadline: number;
+
+  constructor(deadline: number) {
+    super(`Deadline ${new Date(deadline).toISOString()} exceeded`);
+    this.name = "DeadlineExceededError";
+    this.deadline = deadline;
+  }
+}
+
 // ─── CircuitBreaker ─────────────────────────────────────────────────────────
 
-export class CircuitBreaker {
+export class CircuitBreaker<C = unknown> {
   private readonly failureThreshold: number;
   private readonly resetTimeout: number;
   private readonly successThreshold: number;
   private readonly isFailure: (error: unknown) => boolean;
+  private readonly store: AsyncLocalStorage<C> | null;
+  private readonly getDeadline: ((context: C) => number | undefined) | null;
+  private readonly setDeadline: ((context: C, deadline: number) => C) | null;
 
   private _state: CircuitState = "CLOSED";
   private failures = 0;
@@ -68,11 +100,14 @@ export class CircuitBreaker {
   private totalRejections = 0;
   private probeInFlight = false;
 
-  constructor(options: CircuitBreakerOptions = {}) {
+  constructor(options: CircuitBreakerOptions<C> = {}) {
     this.failureThreshold = options.failureThreshold ?? 5;
     this.resetTimeout = options.resetTimeout ?? 30000;
     this.successThreshold = options.successThreshold ?? 1;
     this.isFailure = options.isFailure ?? (() => true);
+    this.store = options.store ?? null;
+    this.getDeadline = options.getDeadline ?? null;
+    this.setDeadline = options.setDeadline ?? null;
 
     if (this.failureThreshold < 1) {
       throw new Error("failureThreshold must be >= 1");
@@ -100,8 +135,32 @@ export class CircuitBreaker {
    * - OPEN: Immediate rejection, no execution, causality severed
    * - HALF_OPEN: Single probe allowed, others rejected
    * - CLOSED: Normal execution with failure tracking
+   *
+   * An expired deadline rejects with DeadlineExceededError before the state
+   * check: it is not a failure, not a rejection, and never spends the probe.
+   * The same holds for an aborted signal: already aborted, fn never runs;
+   * aborted while fn runs, its error is rethrown without being counted.
+   * A tighter explicit deadline is written into the context fn runs in
+   * (see setDeadline), so nested calls inherit it.
    */
-  async run<T>(fn: () => Promise<T>): Promise<T> {
+  async run<T>(
+    fn: (signal: AbortSignal) => Promise<T>,
+    options: RunOptions = {}
+  ): Promise<T> {
+    const signal = options.signal ?? new AbortController().signal;
+    if (signal.aborted) throw signal.reason;
+
+    const context = this.store?.getStore();
+    const inherited =
+      context !== undefined && this.getDeadline
+        ? this.getDeadline(context)
+        : undefined;
+    const deadline = Math.min(options.deadline ?? Infinity, inherited ?? Infinity);
+    if (Date.now() >= deadline) {
+      throw new DeadlineExceededError(deadline);
+    }
+    const exec = () => fn(signal);
+
     const currentState = this.state; // Triggers OPEN → HALF_OPEN if needed
 
     // ─── OPEN: Causality severed ────────────────────────────────────
@@ -130,11 +189,17 @@ export class CircuitBreaker {
 
     // ─── Execute with tracking ──────────────────────────────────────
     try {
-      const result = await fn();
+      const result =
+        this.store &&
+        context !== undefined &&
+        this.setDeadline &&
+        deadline < (inherited ?? Infinity)
+          ? await this.store.run(this.setDeadline(context, deadline), exec)
+          : await exec();
       this.onSuccess();
       return result;
     } catch (error) {
-      this.onFailure(error);
+      if (!signal.aborted) this.onFailure(error);
       throw error;
     } finally {
       if (currentState === "HALF_OPEN") {
@@ -220,9 +285,9 @@ export class CircuitBreaker {
 
 // ─── Factory ────────────────────────────────────────────────────────────────
 
-export function createCircuitBreaker(
-  options?: CircuitBreakerOptions
-): CircuitBreaker {
+export function createCircuitBreaker<C = unknown>(
+  options?: CircuitBreakerOptions<C>
+): CircuitBreaker<C> {
   return new CircuitBreaker(options);
 }
 
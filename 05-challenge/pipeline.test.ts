@@ -0,0 +1,307 @@
+/**
+ * Pipeline Test Suite
+ *
+ * Tests for layer order, order validation, timeout, signal and context flow.
+ */
+
+import assert from "node:assert";
+import { AsyncLocalStorage } from "node:async_hooks";
+import { CircuitOpenError, createCircuitBreaker } from "./circuit-breaker.js";
+import { pipeline } from "./pipeline.js";
+import { ExecutionTimeoutError } from "./timeout-policy.js";
+
+// ─── Test Utilities ─────────────────────────────────────────────────────────
+
+function sleep(ms: number): Promise<void> {
+  return new Promise((resolve) => setTimeout(resolve, ms));
+}
+
+// Minimal AsyncGate mock: records calls and the signal it was given
+class MockGate {
+  acquisitions = 0;
+  signals: Array<AbortSignal | undefined> = [];
+  private readonly trace: string[];
+
+  constructor(trace: string[] = []) {
+    this.trace = trace;
+  }
+
+  async run<T>(
+    fn: (signal: AbortSignal) => Promise<T>,
+    options?: { signal?: AbortSignal }
+  ): Promise<T> {
+    this.acquisitions++;
+    this.signals.push(options?.signal);
+    this.trace.push("gate");
+    return fn(options?.signal ?? new AbortController().signal);
+  }
+}
+
+// Minimal Retrier mock: fixed attempts, no backoff
+class MockRetrier {
+  attempts = 0;
+  private readonly maxAttempts: number;
+  private readonly trace: string[];
+
+  constructor(maxAttempts = 3, trace: string[] = []) {
+    this.maxAttempts = maxAttempts;
+    this.trace = trace;
+  }
+
+  async run<T>(
+    fn: (signal: AbortSignal) => Promise<T>,
+    options?: { signal?: AbortSignal }
+  ): Promise<T> {
+    const signal = options?.signal ?? new AbortController().signal;
+    let lastError: unknown;
+    for (let i = 0; i < this.maxAttempts; i++) {
+      this.attempts++;
+      this.trace.push("retry");
+      try {
+        return await fn(signal);
+      } catch (error) {
+        lastError = error;
+      }
+    }
+    throw lastError;
+  }
+}
+
+async function collectWarnings(fn: () => void): Promise<string[]> {
+  const warnings: string[] = [];
+  const onWarning = (warning: Error) => {
+    if (warning.name === "PipelineOrderWarning") warnings.push(warning.message);
+  };
+  process.on("warning", onWarning);
+  fn();
+  await sleep(0); // Warnings are emitted on the next tick
+  process.off("warning", onWarning);
+  return warnings;
+}
+
+// ─── Tests ──────────────────────────────────────────────────────────────────
+
+const tests: Array<{ name: string; fn: () => Promise<void> }> = [];
+function test(name: string, fn: () => Promise<void>) {
+  tests.push({ name, fn });
+}
+
+// ─── Composition Order ──────────────────────────────────────────────────────
+
+test("runs layers outermost first", async () => {
+  const trace: string[] = [];
+  const run = pipeline()
+    .circuit(createCircuitBreaker())
+    .gate(new MockGate(trace))
+    .retry(new MockRetrier(3, trace))
+    .timeout(1000)
+    .build();
+
+  const result = await run.run(async () => {
+    trace.push("work");
+    return "ok";
+  });
+
+  assert.strictEqual(result, "ok");
+  assert.deepStrictEqual(trace, ["gate", "retry", "work"]);
+  assert.deepStrictEqual(run.layers, ["circuit", "gate", "retry", "timeout"]);
+});
+
+test("open circuit never reaches the gate", async () => {
+  const circuit = createCircuitBreaker({ failureThreshold: 1 });
+  const gate = new MockGate();
+  const run = pipeline().circuit(circuit).gate(gate).build();
+
+  try {
+    await run.run(async () => {
+      throw new Error("Fail");
+    });
+  } catch { }
+
+  try {
+    await run.run(async () => "work");
+    assert.fail("Should have thrown");
+  } catch (error) {
+    assert.ok(error instanceof CircuitOpenError);
+  }
+  assert.strictEqual(gate.acquisitions, 1);
+});
+
+test("exhausted retry sequence counts as one circuit failure", async () => {
+  const circuit = createCircuitBreaker({ failureThreshold: 2 });
+  const retrier = new MockRetrier(3);
+  const run = pipeline().circuit(circuit).retry(retrier).build();
+
+  try {
+    await run.run(async () => {
+      throw new Error("Fail");
+    });
+  } catch { }
+
+  assert.strictEqual(retrier.attempts, 3);
+  assert.strictEqual(circuit.getStats().failures, 1);
+  assert.strictEqual(circuit.state, "CLOSED");
+});
+
+// ─── Order Validation ───────────────────────────────────────────────────────
+
+test("rejects gate outside circuit", async () => {
+  assert.throws(
+    () => pipeline().gate(new MockGate()).circuit(createCircuitBreaker()).build(),
+    /fail-before-gate/
+  );
+});
+
+test("rejects duplicate layers", async () => {
+  assert.throws(
+    () => pipeline().timeout(10).retry(new MockRetrier()).timeout(20).build(),
+    /timeout added more than once/
+  );
+});
+
+test("warns about questionable orders", async () => {
+  const warnings = await collectWarnings(() =>
+    pipeline()
+      .timeout(100)
+      .retry(new MockRetrier())
+      .circuit(createCircuitBreaker())
+      .gate(new MockGate())
+      .build()
+  );
+
+  assert.strictEqual(warnings.length, 4);
+  assert.ok(warnings.some((w) => w.includes("re-queues every attempt")));
+  assert.ok(warnings.some((w) => w.includes("respectCircuit")));
+});
+
+test("canonical order builds without warnings", async () => {
+  const warnings = await collectWarnings(() =>
+    pipeline()
+      .circuit(createCircuitBreaker())
+      .gate(new MockGate())
+      .retry(new MockRetrier())
+      .timeout(100)
+      .build()
+  );
+  assert.deepStrictEqual(warnings, []);
+});
+
+// ─── Timeout ────────────────────────────────────────────────────────────────
+
+test("timeout applies per attempt and aborts the work's signal", async () => {
+  const retrier = new MockRetrier(3);
+  const reasons: unknown[] = [];
+  const run = pipeline().retry(retrier).timeout(20).build();
+
+  try {
+    await run.run(
+      (signal) =>
+        new Promise((_, reject) => {
+          signal.addEventListener("abort", () => {
+            reasons.push(signal.reason);
+            reject(signal.reason);
+          });
+        })
+    );
+    assert.fail("Should have thrown");
+  } catch (error) {
+    assert.ok(error instanceof ExecutionTimeoutError);
+    assert.strictEqual(error.timeout, 20);
+  }
+
+  assert.strictEqual(retrier.attempts, 3);
+  assert.strictEqual(reasons.length, 3);
+  assert.ok(reasons.every((r) => r instanceof ExecutionTimeoutError));
+});
+
+test("timed-out attempt counts as a circuit failure", async () => {
+  const circuit = createCircuitBreaker({ failureThreshold: 1 });
+  const run = pipeline().circuit(circuit).timeout(10).build();
+
+  try {
+    await run.run(() => sleep(100));
+  } catch (error) {
+    assert.ok(error instanceof ExecutionTimeoutError);
+  }
+  assert.strictEqual(circuit.state, "OPEN");
+});
+
+// ─── Signal and Context ─────────────────────────────────────────────────────
+
+test("caller's signal reaches the gate and the work", async () => {
+  const gate = new MockGate();
+  const controller = new AbortController();
+  const run = pipeline().gate(gate).timeout(1000).build();
+
+  const pending = run.run(
+    (signal) =>
+      new Promise((_, reject) => {
+        signal.addEventListener("abort", () => reject(signal.reason));
+      }),
+    { signal: controller.signal }
+  );
+  controller.abort(new Error("caller gave up"));
+
+  await assert.rejects(pending, /caller gave up/);
+  assert.strictEqual(gate.signals[0], controller.signal);
+});
+
+test("already-aborted signal runs nothing", async () => {
+  const gate = new MockGate();
+  const run = pipeline().gate(gate).build();
+
+  await assert.rejects(
+    run.run(async () => "work", { signal: AbortSignal.abort(new Error("stop")) }),
+    /stop/
+  );
+  assert.strictEqual(gate.acquisitions, 0);
+});
+
+test("work sees the caller's context through every layer", async () => {
+  const store = new AsyncLocalStorage<{ traceId: string }>();
+  const run = pipeline()
+    .circuit(createCircuitBreaker())
+    .gate(new MockGate())
+    .retry(new MockRetrier())
+    .timeout(1000)
+    .build();
+
+  const seen = await store.run({ traceId: "abc" }, () =>
+    run.run(async () => store.getStore()?.traceId)
+  );
+  assert.strictEqual(seen, "abc");
+});
+
+// ─── Test Runner ────────────────────────────────────────────────────────────
+
+async function runTests() {
+  console.log("\n🧱 Pipeline Test Suite\n");
+  console.log("─".repeat(60));
+
+  let passed = 0;
+  let failed = 0;
+
+  for (const { name, fn } of tests) {
+    try {
+      await fn();
+      console.log(`  ✓ ${name}`);
+      passed++;
+    } catch (error) {
+      console.log(`  ✗ ${name}`);
+      console.log(`    ${error instanceof Error ? error.message : error}`);
+      if (error instanceof Error && error.stack) {
+        console.log(`    ${error.stack.split("\n")[1]}`);
+      }
+      failed++;
+    }
+  }
+
+  console.log("─".repeat(60));
+  console.log(`\n  ${passed} passed, ${failed} failed\n`);
+
+  if (failed > 0) {
+    process.exit(1);
+  }
+}
+
+runTests().catch(console.error);
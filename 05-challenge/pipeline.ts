@@ -0,0 +1,170 @@
+/**
+ * Pipeline - Fluent builder for the circuit → gate → retry → timeout stack
+ *
+ * DESIGN DECISIONS:
+ * - Layers are listed outermost first: pipeline().circuit(c).gate(g) means
+ *   the circuit wraps the gate
+ * - Ordering rules from the NOTES are checked at build():
+ *   - gate outside circuit is an error (fail-before-gate)
+ *   - other questionable orders emit a PipelineOrderWarning
+ * - Each layer hands its signal to the next, so the work sees the caller's
+ *   abort and anything a layer adds (gate close, timeout); context flows
+ *   through untouched (each layer preserves it)
+ * - timeout() is a TimeoutPolicy: ExecutionTimeoutError, cooperative abort
+ *
+ * @module day-5/pipeline
+ */
+
+import { CircuitBreaker } from "./circuit-breaker.js";
+import { TimeoutPolicy } from "./timeout-policy.js";
+
+// ─── Types ──────────────────────────────────────────────────────────────────
+
+/** Structural view of Day-03 AsyncGate (or anything with the same run()) */
+export interface GateLike {
+  run<T>(
+    fn: (signal: AbortSignal) => Promise<T>,
+    options?: { signal?: AbortSignal }
+  ): Promise<T>;
+}
+
+/** Structural view of Day-04 Retrier */
+export interface RetrierLike {
+  run<T>(
+    fn: (signal: AbortSignal) => Promise<T>,
+    options?: { signal?: AbortSignal }
+  ): Promise<T>;
+}
+
+export type LayerKind = "circuit" | "gate" | "retry" | "timeout";
+
+export type Work<T> = (signal: AbortSignal) => Promise<T>;
+
+export interface PipelineRunOptions {
+  signal?: AbortSignal;
+}
+
+export interface Pipeline {
+  /** Layers outermost first, as built */
+  readonly layers: readonly LayerKind[];
+  run<T>(fn: Work<T>, options?: PipelineRunOptions): Promise<T>;
+}
+
+type Layer =
+  | { kind: "circuit"; circuit: CircuitBreaker }
+  | { kind: "gate"; gate: GateLike }
+  | { kind: "retry"; retrier: RetrierLike }
+  | { kind: "timeout"; policy: TimeoutPolicy };
+
+// ─── Builder ────────────────────────────────────────────────────────────────
+
+/** Canonical order, outermost first */
+const CANONICAL: readonly LayerKind[] = ["circuit", "gate", "retry", "timeout"];
+
+/** [outer, inner, why] - warn when `inner` is placed outside `outer` */
+const ORDER_WARNINGS: Array<[LayerKind, LayerKind, string]> = [
+  [
+    "gate",
+    "retry",
+    "retry outside gate re-queues every attempt; gate first holds the slot across retries",
+  ],
+  [
+    "circuit",
+    "retry",
+    "circuit inside retry: the retrier must not retry CircuitOpenError (isRetryable: respectCircuit)",
+  ],
+  ["retry", "timeout", "timeout outside retry bounds the whole sequence, not each attempt"],
+  ["gate", "timeout", "timeout outside gate counts time spent queueing"],
+];
+
+export class PipelineBuilder {
+  private readonly layers: Layer[] = [];
+
+  circuit(circuit: CircuitBreaker): this {
+    return this.add({ kind: "circuit", circuit });
+  }
+
+  gate(gate: GateLike): this {
+    return this.add({ kind: "gate", gate });
+  }
+
+  retry(retrier: RetrierLike): this {
+    return this.add({ kind: "retry", retrier });
+  }
+
+  /** Cap each execution (per attempt when placed inside retry) */
+  timeout(timeout: number | TimeoutPolicy): this {
+    const policy =
+      timeout instanceof TimeoutPolicy ? timeout : new TimeoutPolicy({ timeout });
+    return this.add({ kind: "timeout", policy });
+  }
+
+  /**
+   * Validate the order and freeze the layers into a single run().
+   *
+   * @throws Error on duplicate layers or gate outside circuit
+   */
+  build(): Pipeline {
+    const layers = [...this.layers];
+    const kinds = layers.map((layer) => layer.kind);
+    const position = (kind: LayerKind) => kinds.indexOf(kind);
+
+    for (const kind of CANONICAL) {
+      if (kinds.indexOf(kind) !== kinds.lastIndexOf(kind)) {
+        throw new Error(`pipeline: ${kind} added more than once`);
+      }
+    }
+    if (position("gate") !== -1 && position("gate") < position("circuit")) {
+      throw new Error(
+        "pipeline: circuit must wrap gate (fail-before-gate), " +
+          "otherwise an OPEN circuit still takes a slot"
+      );
+    }
+    for (const [outer, inner, why] of ORDER_WARNINGS) {
+      if (position(inner) !== -1 && position(inner) < position(outer)) {
+        process.emitWarning(`pipeline: ${why}`, "PipelineOrderWarning");
+      }
+    }
+
+    return {
+      layers: kinds,
+      run<T>(fn: Work<T>, options: PipelineRunOptions = {}): Promise<T> {
+        const signal = options.signal ?? new AbortController().signal;
+        if (signal.aborted) return Promise.reject(signal.reason);
+
+        // Wrap from the innermost layer outwards
+        let call: Work<T> = fn;
+        for (let i = layers.length - 1; i >= 0; i--) {
+          call = wrapLayer(layers[i], call);
+        }
+        return call(signal);
+      },
+    };
+  }
+
+  private add(layer: Layer): this {
+    this.layers.push(layer);
+    return this;
+  }
+}
+
+// ─── Factory ────────────────────────────────────────────────────────────────
+
+export function pipeline(): PipelineBuilder {
+  return new PipelineBuilder();
+}
+
+// ─── Helpers ────────────────────────────────────────────────────────────────
+
+function wrapLayer<T>(layer: Layer, inner: Work<T>): Work<T> {
+  switch (layer.kind) {
+    case "circuit":
+      return (signal) => layer.circuit.run(inner, { signal });
+    case "gate":
+      return (signal) => layer.gate.run(inner, { signal });
+    case "retry":
+      return (signal) => layer.retrier.run(inner, { signal });
+    case "timeout":
+      return (signal) => layer.policy.run(inner, { signal });
+  }
+}
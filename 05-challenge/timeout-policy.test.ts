@@ -0,0 +1,155 @@
+/**
+ * TimeoutPolicy Test Suite
+ *
+ * Tests for the execution cap, cooperative abort, and how a timeout
+ * composes with the circuit breaker and retries.
+ */
+
+import assert from "node:assert";
+import { createCircuitBreaker, respectCircuit } from "./circuit-breaker.js";
+import {
+  ExecutionTimeoutError,
+  TimeoutPolicy,
+  createTimeoutPolicy,
+  isExecutionTimeoutError,
+} from "./timeout-policy.js";
+
+// ─── Test Utilities ─────────────────────────────────────────────────────────
+
+function sleep(ms: number): Promise<void> {
+  return new Promise((resolve) => setTimeout(resolve, ms));
+}
+
+/** Work that only settles when its signal fires */
+function untilAborted(signal: AbortSignal): Promise<never> {
+  return new Promise((_, reject) => {
+    signal.addEventListener("abort", () => reject(signal.reason));
+  });
+}
+
+// ─── Tests ──────────────────────────────────────────────────────────────────
+
+const tests: Array<{ name: string; fn: () => Promise<void> }> = [];
+function test(name: string, fn: () => Promise<void>) {
+  tests.push({ name, fn });
+}
+
+// ─── Execution Cap ──────────────────────────────────────────────────────────
+
+test("returns the result when work finishes in time", async () => {
+  const policy = createTimeoutPolicy(100);
+  const result = await policy.run(async () => "ok");
+  assert.strictEqual(result, "ok");
+});
+
+test("rejects with ExecutionTimeoutError and aborts the work's signal", async () => {
+  const policy = createTimeoutPolicy(20);
+  let seen: AbortSignal | undefined;
+
+  try {
+    await policy.run((signal) => {
+      seen = signal;
+      return untilAborted(signal);
+    });
+    assert.fail("Should have thrown");
+  } catch (error) {
+    assert.ok(isExecutionTimeoutError(error));
+    assert.strictEqual(error.timeout, 20);
+  }
+  assert.ok(seen?.aborted);
+  assert.ok(seen.reason instanceof ExecutionTimeoutError);
+});
+
+test("rejects on time even if the work ignores its signal", async () => {
+  const policy = createTimeoutPolicy(10);
+  const started = Date.now();
+
+  await assert.rejects(policy.run(() => sleep(200)), ExecutionTimeoutError);
+  assert.ok(Date.now() - started < 150);
+});
+
+test("rejects a non-positive timeout", async () => {
+  assert.throws(() => new TimeoutPolicy({ timeout: 0 }), /timeout must be > 0/);
+});
+
+// ─── Caller Signal ──────────────────────────────────────────────────────────
+
+test("caller's abort reaches the work with the caller's reason", async () => {
+  const policy = createTimeoutPolicy(1000);
+  const controller = new AbortController();
+
+  const pending = policy.run(untilAborted, { signal: controller.signal });
+  controller.abort(new Error("caller gave up"));
+
+  await assert.rejects(pending, /caller gave up/);
+});
+
+test("already-aborted signal never starts the work", async () => {
+  const policy = createTimeoutPolicy(1000);
+  let started = false;
+
+  await assert.rejects(
+    policy.run(
+      async () => {
+        started = true;
+      },
+      { signal: AbortSignal.abort(new Error("stop")) }
+    ),
+    /stop/
+  );
+  assert.strictEqual(started, false);
+});
+
+// ─── Composition ────────────────────────────────────────────────────────────
+
+test("timeout counts as a circuit failure", async () => {
+  const circuit = createCircuitBreaker({ failureThreshold: 2 });
+  const policy = createTimeoutPolicy(10);
+
+  for (let i = 0; i < 2; i++) {
+    await assert.rejects(
+      circuit.run(() => policy.run(untilAborted)),
+      ExecutionTimeoutError
+    );
+  }
+  assert.strictEqual(circuit.state, "OPEN");
+  assert.strictEqual(circuit.getStats().failures, 2);
+});
+
+test("timeout is retryable under respectCircuit", async () => {
+  assert.strictEqual(respectCircuit(new ExecutionTimeoutError(10)), true);
+});
+
+// ─── Test Runner ────────────────────────────────────────────────────────────
+
+async function runTests() {
+  console.log("\n⏱️  TimeoutPolicy Test Suite\n");
+  console.log("─".repeat(60));
+
+  let passed = 0;
+  let failed = 0;
+
+  for (const { name, fn } of tests) {
+    try {
+      await fn();
+      console.log(`  ✓ ${name}`);
+      passed++;
+    } catch (error) {
+      console.log(`  ✗ ${name}`);
+      console.log(`    ${error instanceof Error ? error.message : error}`);
+      if (error instanceof Error && error.stack) {
+        console.log(`    ${error.stack.split("\n")[1]}`);
+      }
+      failed++;
+    }
+  }
+
+  console.log("─".repeat(60));
+  console.log(`\n  ${passed} passed, ${failed} failed\n`);
+
+  if (failed > 0) {
+    process.exit(1);
+  }
+}
+
+runTests().catch(console.error);
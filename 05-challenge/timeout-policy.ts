@@ -0,0 +1,119 @@
+/**
+ * TimeoutPolicy - Execution time cap with cooperative cancellation
+ *
+ * DESIGN DECISIONS:
+ * - Bounds execution, not queueing: AcquireOptions.timeout covers the queue
+ * - fn receives an AbortSignal that fires on timeout (reason:
+ *   ExecutionTimeoutError) or when the caller's signal fires
+ * - Rejects as soon as the time is up or the caller aborts; work that
+ *   ignores the signal keeps running, but its late result is discarded
+ * - A timeout is an ordinary error: it counts as a circuit failure and is
+ *   retryable unless isFailure / isRetryable say otherwise
+ *
+ * @module day-5/timeout-policy
+ */
+
+// ─── Types ──────────────────────────────────────────────────────────────────
+
+export interface TimeoutPolicyOptions {
+  /** Maximum execution time in ms */
+  timeout: number;
+}
+
+export interface TimeoutRunOptions {
+  /** Caller's signal - its abort is forwarded to fn */
+  signal?: AbortSignal;
+}
+
+// ─── Errors ─────────────────────────────────────────────────────────────────
+
+export class ExecutionTimeoutError extends Error {
+  readonly timeout: number;
+
+  constructor(timeout: number) {
+    super(`Execution timed out after ${timeout}ms`);
+    this.name = "ExecutionTimeoutError";
+    this.timeout = timeout;
+  }
+}
+
+// ─── TimeoutPolicy ──────────────────────────────────────────────────────────
+
+export class TimeoutPolicy {
+  readonly timeout: number;
+
+  constructor(options: TimeoutPolicyOptions) {
+    if (!(options.timeout > 0)) {
+      throw new Error("timeout must be > 0");
+    }
+    this.timeout = options.timeout;
+  }
+
+  /**
+   * Execute fn, rejecting with ExecutionTimeoutError once the timeout elapses.
+   *
+   * If the caller's signal is already aborted, fn never runs and the
+   * signal's reason is thrown.
+   */
+  run<T>(
+    fn: (signal: AbortSignal) => Promise<T>,
+    options: TimeoutRunOptions = {}
+  ): Promise<T> {
+    const outer = options.signal;
+    if (outer?.aborted) return Promise.reject(outer.reason);
+
+    const controller = new AbortController();
+
+    return new Promise<T>((resolve, reject) => {
+      const fail = (error: unknown) => {
+        settle();
+        controller.abort(error);
+        reject(error);
+      };
+      const onAbort = () => fail(outer!.reason);
+      const timer = setTimeout(
+        () => fail(new ExecutionTimeoutError(this.timeout)),
+        this.timeout
+      );
+      const settle = () => {
+        clearTimeout(timer);
+        outer?.removeEventListener("abort", onAbort);
+      };
+      outer?.addEventListener("abort", onAbort, { once: true });
+
+      let work: Promise<T>;
+      try {
+        work = Promise.resolve(fn(controller.signal));
+      } catch (error) {
+        work = Promise.reject(error);
+      }
+      work.then(
+        (value) => {
+          settle();
+          resolve(value);
+        },
+        (error) => {
+          settle();
+          reject(error);
+        }
+      );
+    });
+  }
+}
+
+// ─── Factory ────────────────────────────────────────────────────────────────
+
+export function createTimeoutPolicy(timeout: number): TimeoutPolicy {
+  return new TimeoutPolicy({ timeout });
+}
+
+// ─── Composition Helpers ────────────────────────────────────────────────────
+
+/**
+ * Type guard to identify ExecutionTimeoutError.
+ */
+export function isExecutionTimeoutError(
+  error: unknown
+): error is ExecutionTimeoutError {
+  return error instanceof ExecutionTimeoutError;
+}
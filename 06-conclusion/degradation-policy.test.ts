@@ -0,0 +1,194 @@
+/**
+ * DegradationPolicy Test Suite
+ *
+ * Tests for failure classification, the four outcomes, and the hard "no"
+ * on silence for work the caller depends on.
+ */
+
+import assert from "node:assert";
+import {
+  classify,
+  createDegradationPolicy,
+  SilenceForbiddenError,
+  type SilenceRecord,
+} from "./degradation-policy.js";
+
+// ─── Test Utilities ─────────────────────────────────────────────────────────
+
+/** Stand-in for another day's error: only the name (and fields) matter */
+function failure(name: string, fields: Record<string, unknown> = {}): Error {
+  return Object.assign(new Error(name), { name }, fields);
+}
+
+function circuitOpen(inMs: number): Error {
+  return failure("CircuitOpenError", { nextAttemptAt: Date.now() + inMs });
+}
+
+const analytics = { name: "track", silent: true };
+const createOrder = { name: "createOrder", primary: true, mutates: true };
+
+// ─── Tests ──────────────────────────────────────────────────────────────────
+
+const tests: Array<{ name: string; fn: () => Promise<void> }> = [];
+function test(name: string, fn: () => Promise<void>) {
+  tests.push({ name, fn });
+}
+
+// ─── Classification ─────────────────────────────────────────────────────────
+
+test("classifies failures by error name", async () => {
+  assert.strictEqual(classify(failure("CircuitOpenError")), "rejected");
+  assert.strictEqual(classify(failure("RetryExhaustedError")), "exhausted");
+  assert.strictEqual(classify(failure("QueueFullError")), "overloaded");
+  assert.strictEqual(classify(failure("ExecutionTimeoutError")), "timeout");
+  assert.strictEqual(classify(failure("RetryAbortedError")), "cancelled");
+  assert.strictEqual(classify(new TypeError("bug")), "unknown");
+  assert.strictEqual(classify("not an error"), "unknown");
+});
+
+// ─── The Hard "No" ──────────────────────────────────────────────────────────
+
+test("refuses to declare silence for work the caller depends on", async () => {
+  const policy = createDegradationPolicy();
+
+  for (const flag of ["primary", "mutates", "acknowledged"]) {
+    assert.throws(
+      () => policy.declare({ name: "op", silent: true, [flag]: true }),
+      SilenceForbiddenError
+    );
+  }
+  await assert.rejects(
+    policy.run({ ...createOrder, silent: true }, async () => "never"),
+    SilenceForbiddenError
+  );
+});
+
+test("primary mutating work fails loudly", async () => {
+  const policy = createDegradationPolicy();
+  const error = failure("RetryExhaustedError");
+
+  await assert.rejects(
+    policy.run(createOrder, () => Promise.reject(error)),
+    (thrown) => thrown === error
+  );
+  assert.strictEqual(policy.getStats().failed, 1);
+});
+
+test("mutating work is never degraded, even with a fallback", async () => {
+  const policy = createDegradationPolicy();
+  const decision = policy.decide(
+    { name: "write", mutates: true, fallback: () => "fake" },
+    failure("CircuitOpenError")
+  );
+  assert.strictEqual(decision.outcome, "fail");
+});
+
+// ─── Outcomes ───────────────────────────────────────────────────────────────
+
+test("auxiliary work is silenced and recorded out-of-band", async () => {
+  const records: SilenceRecord[] = [];
+  const policy = createDegradationPolicy({ onSilence: (r) => records.push(r) });
+
+  const result = await policy.run(analytics, () =>
+    Promise.reject(failure("QueueFullError"))
+  );
+
+  assert.strictEqual(result.outcome, "silenced");
+  assert.deepStrictEqual(
+    records.map(({ operation, kind }) => ({ operation, kind })),
+    [{ operation: "track", kind: "overloaded" }]
+  );
+  const stats = policy.getStats();
+  assert.strictEqual(stats.silenced, 1);
+  assert.strictEqual(stats.silenceByKind.overloaded, 1);
+  assert.ok(stats.lastSilenceAt !== null);
+});
+
+test("non-mutating work degrades to a labelled fallback", async () => {
+  const policy = createDegradationPolicy();
+  const error = circuitOpen(30_000);
+
+  const result = await policy.run(
+    { name: "recommendations", primary: true, fallback: () => ["popular"] },
+    () => Promise.reject(error)
+  );
+
+  assert.deepStrictEqual(result, {
+    outcome: "degraded",
+    value: ["popular"],
+    error,
+  });
+});
+
+test("delays until an OPEN circuit's next attempt, then tries once more", async () => {
+  const policy = createDegradationPolicy();
+  let calls = 0;
+
+  const result = await policy.run(
+    { name: "getProfile", primary: true, maxDelay: 100 },
+    async () => {
+      calls++;
+      if (calls === 1) throw circuitOpen(20);
+      return "profile";
+    }
+  );
+
+  assert.deepStrictEqual(result, { outcome: "ok", value: "profile" });
+  assert.strictEqual(calls, 2);
+  assert.strictEqual(policy.getStats().delayed, 1);
+});
+
+test("does not delay past maxDelay or twice", async () => {
+  const policy = createDegradationPolicy();
+  const semantics = { name: "getProfile", primary: true, maxDelay: 100 };
+
+  assert.strictEqual(policy.decide(semantics, circuitOpen(5_000)).outcome, "fail");
+
+  let calls = 0;
+  await assert.rejects(
+    policy.run(semantics, async () => {
+      calls++;
+      throw circuitOpen(10);
+    }),
+    /CircuitOpenError/
+  );
+  assert.strictEqual(calls, 2);
+});
+
+test("cancellation always fails, even for silent work", async () => {
+  const policy = createDegradationPolicy();
+  const decision = policy.decide(analytics, failure("AbortError"));
+  assert.strictEqual(decision.outcome, "fail");
+  assert.strictEqual(decision.kind, "cancelled");
+});
+
+// ─── Test Runner ────────────────────────────────────────────────────────────
+
+async function runTests() {
+  console.log("\n🧪 DegradationPolicy Test Suite\n");
+  console.log("─".repeat(60));
+
+  let passed = 0;
+  let failed = 0;
+
+  for (const { name, fn } of tests) {
+    try {
+      await fn();
+      console.log(`  ✓ ${name}`);
+      passed++;
+    } catch (error) {
+      console.log(`  ✗ ${name}`);
+      console.log(`    ${error instanceof Error ? error.message : error}`);
+      failed++;
+    }
+  }
+
+  console.log("─".repeat(60));
+  console.log(`\n  ${passed} passed, ${failed} failed\n`);
+
+  if (failed > 0) {
+    process.exit(1);
+  }
+}
+
+runTests().catch(console.error);
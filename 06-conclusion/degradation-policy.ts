@@ -0,0 +1,293 @@
+/**
+ * DegradationPolicy - Fail, degrade, delay, or stay silent, decided at runtime
+ *
+ * DESIGN DECISIONS:
+ * - Operations declare their semantics; the observed failure picks the outcome
+ * - Failures are classified by error.name, so errors from any day (or a
+ *   copy of it) are understood without importing its classes
+ * - The hard "no": silence is refused for work the caller depends on
+ *   (primary, state-mutating, or already acknowledged) - at declaration and
+ *   at decision time
+ * - Degrading is never silent: the caller gets the fallback value labelled
+ *   "degraded", never a fake success
+ * - Delay only when the failure says when to come back (an OPEN circuit's
+ *   nextAttemptAt) and the caller can wait that long; then one more try
+ * - Silence is observable out-of-band: counted per reason, never in-band
+ *
+ * @module day-6/degradation-policy
+ */
+
+// ─── Types ──────────────────────────────────────────────────────────────────
+
+export type DegradationOutcome = "fail" | "degrade" | "delay" | "silence";
+
+export type FailureKind =
+  | "cancelled" // caller or shutdown - nothing to replace
+  | "rejected" // circuit open, gate closed
+  | "exhausted" // retries used up
+  | "overloaded" // queue full, shed
+  | "timeout" // timeout or deadline
+  | "unknown";
+
+export interface OperationSemantics<T> {
+  /** Shown in decisions and silence records */
+  name: string;
+  /** The caller's main intent, not auxiliary work */
+  primary?: boolean;
+  /** Mutates state the caller can see */
+  mutates?: boolean;
+  /** The caller already received an acknowledgement */
+  acknowledged?: boolean;
+  /** Failure may go unreported to the caller (auxiliary work only) */
+  silent?: boolean;
+  /** Replacement value; only used for work that does not mutate or ack */
+  fallback?: (error: unknown) => T | Promise<T>;
+  /** Longest the caller may wait for the dependency to come back (ms) */
+  maxDelay?: number;
+}
+
+export interface Decision {
+  outcome: DegradationOutcome;
+  kind: FailureKind;
+  /** For "delay": how long to wait before the one extra attempt (ms) */
+  wait?: number;
+  reason: string;
+}
+
+export type PolicyResult<T> =
+  | { outcome: "ok"; value: T }
+  | { outcome: "degraded"; value: T; error: unknown }
+  | { outcome: "silenced"; error: unknown };
+
+export interface SilenceRecord {
+  operation: string;
+  kind: FailureKind;
+  at: number;
+}
+
+export interface DegradationPolicyOptions {
+  /** Out-of-band report of every silenced failure (metrics, logs) */
+  onSilence?: (record: SilenceRecord) => void;
+}
+
+export interface DegradationStats {
+  failed: number;
+  degraded: number;
+  delayed: number;
+  silenced: number;
+  /** Silenced failures per kind */
+  silenceByKind: Record<FailureKind, number>;
+  lastSilenceAt: number | null;
+}
+
+// ─── Errors ─────────────────────────────────────────────────────────────────
+
+export class SilenceForbiddenError extends Error {
+  readonly operation: string;
+
+  constructor(operation: string) {
+    super(
+      `Operation "${operation}" cannot be silent: the caller depends on its outcome`
+    );
+    this.name = "SilenceForbiddenError";
+    this.operation = operation;
+  }
+}
+
+// ─── Classification ─────────────────────────────────────────────────────────
+
+const KIND_BY_NAME: Record<string, FailureKind> = {
+  AbortError: "cancelled",
+  RetryAbortedError: "cancelled",
+  CircuitOpenError: "rejected",
+  GateClosedError: "rejected",
+  RetryExhaustedError: "exhausted",
+  QueueFullError: "overloaded",
+  BulkheadRejectedError: "overloaded",
+  OverloadError: "overloaded",
+  TimeoutError: "timeout",
+  ExecutionTimeoutError: "timeout",
+  DeadlineExceededError: "timeout",
+};
+
+/**
+ * Classify a failure by its error name.
+ */
+export function classify(error: unknown): FailureKind {
+  const name = error instanceof Error ? error.name : undefined;
+  return (name && KIND_BY_NAME[name]) || "unknown";
+}
+
+/**
+ * Does the caller's mental model depend on this operation's outcome?
+ * (Day-06 Q6: primary work, state mutation, or post-ack)
+ */
+export function dependsOnOutcome(semantics: OperationSemantics<unknown>): boolean {
+  return Boolean(semantics.primary || semantics.mutates || semantics.acknowledged);
+}
+
+// ─── DegradationPolicy ──────────────────────────────────────────────────────
+
+export class DegradationPolicy {
+  private readonly onSilence: ((record: SilenceRecord) => void) | null;
+  private failed = 0;
+  private degraded = 0;
+  private delayed = 0;
+  private silenced = 0;
+  private readonly silenceByKind: Record<FailureKind, number> = {
+    cancelled: 0,
+    rejected: 0,
+    exhausted: 0,
+    overloaded: 0,
+    timeout: 0,
+    unknown: 0,
+  };
+  private lastSilenceAt: number | null = null;
+
+  constructor(options: DegradationPolicyOptions = {}) {
+    this.onSilence = options.onSilence ?? null;
+  }
+
+  /**
+   * Validate an operation's declared semantics.
+   *
+   * @throws SilenceForbiddenError if silent work is also depended upon
+   */
+  declare<T>(semantics: OperationSemantics<T>): OperationSemantics<T> {
+    if (semantics.silent && dependsOnOutcome(semantics)) {
+      throw new SilenceForbiddenError(semantics.name);
+    }
+    return semantics;
+  }
+
+  /**
+   * Pick the outcome for a failure. Pure: runs nothing, counts nothing.
+   *
+   * Preference: delay (if the dependency says when) → degrade (fallback,
+   * non-mutating work only) → silence (auxiliary work that allows it) → fail.
+   * Cancellation always fails.
+   */
+  decide(semantics: OperationSemantics<unknown>, error: unknown): Decision {
+    const kind = classify(error);
+    if (kind === "cancelled") {
+      return { outcome: "fail", kind, reason: "cancelled: nothing to replace" };
+    }
+
+    const wait = retryAfter(error);
+    if (
+      wait !== undefined &&
+      semantics.maxDelay !== undefined &&
+      wait <= semantics.maxDelay
+    ) {
+      return { outcome: "delay", kind, wait, reason: "dependency back within maxDelay" };
+    }
+
+    if (semantics.fallback && !semantics.mutates && !semantics.acknowledged) {
+      return { outcome: "degrade", kind, reason: "fallback for non-mutating work" };
+    }
+
+    if (semantics.silent && !dependsOnOutcome(semantics)) {
+      return { outcome: "silence", kind, reason: "auxiliary work" };
+    }
+
+    return {
+      outcome: "fail",
+      kind,
+      reason: dependsOnOutcome(semantics)
+        ? "caller depends on the outcome"
+        : "no fallback and silence not allowed",
+    };
+  }
+
+  /**
+   * Execute fn and apply the decided outcome to its failure.
+   *
+   * - fail: the original error is rethrown
+   * - degrade: resolves { outcome: "degraded", value, error }
+   * - delay: waits, tries once more, then decides again without delaying
+   * - silence: resolves { outcome: "silenced" } and records it out-of-band
+   */
+  async run<T>(
+    semantics: OperationSemantics<T>,
+    fn: () => Promise<T>
+  ): Promise<PolicyResult<T>> {
+    this.declare(semantics);
+
+    try {
+      return { outcome: "ok", value: await fn() };
+    } catch (error) {
+      const decision = this.decide(semantics, error);
+      if (decision.outcome !== "delay") {
+        return this.apply(semantics, decision, error);
+      }
+
+      this.delayed++;
+      await sleep(decision.wait!);
+      try {
+        return { outcome: "ok", value: await fn() };
+      } catch (retryError) {
+        const noDelay = { ...semantics, maxDelay: undefined };
+        return this.apply(noDelay, this.decide(noDelay, retryError), retryError);
+      }
+    }
+  }
+
+  getStats(): DegradationStats {
+    return {
+      failed: this.failed,
+      degraded: this.degraded,
+      delayed: this.delayed,
+      silenced: this.silenced,
+      silenceByKind: { ...this.silenceByKind },
+      lastSilenceAt: this.lastSilenceAt,
+    };
+  }
+
+  // ─── Private ──────────────────────────────────────────────────────
+
+  private async apply<T>(
+    semantics: OperationSemantics<T>,
+    decision: Decision,
+    error: unknown
+  ): Promise<PolicyResult<T>> {
+    switch (decision.outcome) {
+      case "degrade": {
+        const value = await semantics.fallback!(error);
+        this.degraded++;
+        return { outcome: "degraded", value, error };
+      }
+      case "silence": {
+        const at = Date.now();
+        this.silenced++;
+        this.silenceByKind[decision.kind]++;
+        this.lastSilenceAt = at;
+        this.onSilence?.({ operation: semantics.name, kind: decision.kind, at });
+        return { outcome: "silenced", error };
+      }
+      default:
+        this.failed++;
+        throw error;
+    }
+  }
+}
+
+// ─── Factory ────────────────────────────────────────────────────────────────
+
+export function createDegradationPolicy(
+  options?: DegradationPolicyOptions
+): DegradationPolicy {
+  return new DegradationPolicy(options);
+}
+
+// ─── Helpers ────────────────────────────────────────────────────────────────
+
+/** ms until the failing dependency accepts work again, if the error says */
+function retryAfter(error: unknown): number | undefined {
+  const nextAttemptAt = (error as { nextAttemptAt?: unknown } | null)?.nextAttemptAt;
+  if (typeof nextAttemptAt !== "number") return undefined;
+  return Math.max(0, nextAttemptAt - Date.now());
+}
+
+function sleep(ms: number): Promise<void> {
+  return new Promise((resolve) => setTimeout(resolve, ms));
+}